@@ -0,0 +1,178 @@
+import { KSUID } from '../src';
+import { decodeBase62, decodeInto, encodeBase62, encodeInto } from '../src/base62';
+import {
+  BASE62_CHARACTERS,
+  BYTE_LENGTH,
+  OFFSET_LOWERCASE,
+  OFFSET_UPPERCASE,
+  STRING_ENCODED_LENGTH,
+  ZERO_STRING
+} from '../src/constants';
+
+// Benchmarks of the base62 codec against the baseline implementation (commit dd5051f),
+// copied verbatim: it allocated quotient arrays and a TextEncoder/TextDecoder per call,
+// and read 4-byte words with a high bit set as negative numbers.
+// Run with `npm run bench`.
+
+/**
+ * Baseline base62Value, without the check for invalid characters
+ */
+function baselineBase62Value(digit: string): number {
+  const charCode = digit.charCodeAt(0);
+  if (charCode >= 48 && charCode <= 57) { // 0-9
+    return charCode - 48;
+  } else if (charCode >= 65 && charCode <= 90) { // A-Z
+    return OFFSET_UPPERCASE + (charCode - 65);
+  } else { // a-z
+    return OFFSET_LOWERCASE + (charCode - 97);
+  }
+}
+
+/**
+ * Baseline base62 encoding implementation
+ */
+function baselineEncodeBase62(src: Uint8Array): string {
+  const dst = new Uint8Array(STRING_ENCODED_LENGTH);
+  
+  // Split src into 5 4-byte words
+  const parts = [
+    (src[0] << 24) | (src[1] << 16) | (src[2] << 8) | src[3],
+    (src[4] << 24) | (src[5] << 16) | (src[6] << 8) | src[7],
+    (src[8] << 24) | (src[9] << 16) | (src[10] << 8) | src[11],
+    (src[12] << 24) | (src[13] << 16) | (src[14] << 8) | src[15],
+    (src[16] << 24) | (src[17] << 16) | (src[18] << 8) | src[19],
+  ];
+  
+  const srcBase = 4294967296; // 2^32
+  const dstBase = 62;
+  
+  let bp = [...parts];
+  let n = STRING_ENCODED_LENGTH;
+  
+  while (bp.length !== 0) {
+    const quotient: number[] = [];
+    let remainder = 0;
+    
+    for (const c of bp) {
+      // This is emulating bigint arithmetic since JS doesn't handle 128-bit integers well
+      const value = c + remainder * srcBase;
+      const digit = Math.floor(value / dstBase);
+      remainder = value % dstBase;
+      
+      if (quotient.length !== 0 || digit !== 0) {
+        quotient.push(digit);
+      }
+    }
+    
+    n--;
+    dst[n] = BASE62_CHARACTERS.charCodeAt(remainder);
+    bp = quotient;
+  }
+  
+  // Add padding at the head of the destination buffer
+  for (let i = 0; i < n; i++) {
+    dst[i] = ZERO_STRING.charCodeAt(i);
+  }
+  
+  return new TextDecoder().decode(dst);
+}
+
+/**
+ * Baseline base62 decoding implementation
+ */
+function baselineDecodeBase62(dst: Uint8Array, src: Uint8Array): boolean {
+  if (src.length !== STRING_ENCODED_LENGTH) {
+    return false;
+  }
+  
+  const srcBase = 62;
+  const dstBase = 4294967296; // 2^32
+  
+  // Convert base62 characters to their numeric value
+  const parts = new Uint8Array(STRING_ENCODED_LENGTH);
+  for (let i = 0; i < STRING_ENCODED_LENGTH; i++) {
+    parts[i] = baselineBase62Value(String.fromCharCode(src[i]));
+  }
+  
+  let n = BYTE_LENGTH;
+  let bp = Array.from(parts);
+  
+  while (bp.length > 0) {
+    const quotient: number[] = [];
+    let remainder = 0;
+    
+    for (const c of bp) {
+      const value = c + remainder * srcBase;
+      const digit = Math.floor(value / dstBase);
+      remainder = value % dstBase;
+      
+      if (quotient.length !== 0 || digit !== 0) {
+        quotient.push(digit);
+      }
+    }
+    
+    if (n < 4) {
+      return false;
+    }
+    
+    dst[n-4] = (remainder >> 24) & 0xFF;
+    dst[n-3] = (remainder >> 16) & 0xFF;
+    dst[n-2] = (remainder >> 8) & 0xFF;
+    dst[n-1] = remainder & 0xFF;
+    n -= 4;
+    bp = quotient;
+  }
+  
+  // Zero out any remaining bytes
+  for (let i = 0; i < n; i++) {
+    dst[i] = 0;
+  }
+  
+  return true;
+}
+
+/**
+ * Run fn `iterations` times and print the throughput
+ */
+function bench(name: string, iterations: number, fn: (i: number) => void): void {
+  // Warm up so the JIT has compiled fn before timing
+  for (let i = 0; i < Math.min(iterations, 10000); i++) {
+    fn(i);
+  }
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    fn(i);
+  }
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+
+  const opsPerSecond = Math.round(iterations / (elapsed / 1000));
+  console.log(`${name.padEnd(32)} ${opsPerSecond.toLocaleString('en-US').padStart(12)} ops/s`);
+}
+
+const COUNT = 1000;
+const ITERATIONS = 200000;
+
+const ids = Array.from({ length: COUNT }, () => KSUID.new());
+const binary = ids.map(id => id.getBytes());
+const strings = ids.map(id => id.toString());
+const ascii = strings.map(str => new TextEncoder().encode(str));
+
+const packedBinary = new Uint8Array(COUNT * BYTE_LENGTH);
+binary.forEach((bytes, i) => packedBinary.set(bytes, i * BYTE_LENGTH));
+const packedAscii = new Uint8Array(COUNT * STRING_ENCODED_LENGTH);
+ascii.forEach((chars, i) => packedAscii.set(chars, i * STRING_ENCODED_LENGTH));
+
+const bytesOut = new Uint8Array(BYTE_LENGTH);
+const charsOut = new Uint8Array(STRING_ENCODED_LENGTH);
+
+console.log('== Encoding ==');
+bench('baseline fastEncodeBase62', ITERATIONS, i => baselineEncodeBase62(binary[i % COUNT]));
+bench('encodeBase62', ITERATIONS, i => encodeBase62(binary[i % COUNT]));
+bench('encodeInto', ITERATIONS, i => encodeInto(charsOut, 0, packedBinary, (i % COUNT) * BYTE_LENGTH));
+
+console.log();
+console.log('== Decoding ==');
+bench('baseline fastDecodeBase62', ITERATIONS, i => baselineDecodeBase62(bytesOut, new TextEncoder().encode(strings[i % COUNT])));
+bench('decodeBase62', ITERATIONS, i => decodeBase62(strings[i % COUNT]));
+bench('decodeInto', ITERATIONS, i => decodeInto(bytesOut, 0, packedAscii, (i % COUNT) * STRING_ENCODED_LENGTH));
@@ -0,0 +1,124 @@
+import initSqlJs, { Database } from 'sql.js';
+import { KSUID } from './ksuid';
+import {
+  fromBuffer,
+  fromColumn,
+  fromHexLiteral,
+  fromText,
+  toBuffer,
+  toHexLiteral,
+  toText,
+  whereBetween
+} from './adapters';
+
+describe('database adapters', () => {
+  const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+  const hex = '08581913f971348b516762380e521f2744dad62e';
+
+  let db: Database;
+
+  beforeAll(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+    db.run('CREATE TABLE binary_ids (id BLOB PRIMARY KEY)');
+    db.run('CREATE TABLE text_ids (id TEXT PRIMARY KEY)');
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  /**
+   * Column values of a single column query
+   */
+  function column(sql: string, params: unknown[] = []): (Uint8Array | string)[] {
+    const statement = db.prepare(sql);
+    statement.bind(params as (Uint8Array | string)[]);
+    const values: (Uint8Array | string)[] = [];
+    while (statement.step()) {
+      values.push(statement.get()[0] as Uint8Array | string);
+    }
+    statement.free();
+    return values;
+  }
+
+  it('should convert to and from buffers', () => {
+    const buffer = toBuffer(id);
+    expect(Buffer.isBuffer(buffer)).toBe(true);
+    expect(buffer.toString('hex')).toBe(hex);
+    expect(fromBuffer(buffer).equals(id)).toBe(true);
+    expect(() => fromBuffer(buffer.subarray(1))).toThrowError('Binary KSUID must be 20 bytes, got 19');
+  });
+
+  it('should convert to and from text', () => {
+    expect(toText(id)).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(fromText('1BoZGMuixPtHRHwvkZxHEkfLxL4').equals(id)).toBe(true);
+    expect(fromColumn('1BoZGMuixPtHRHwvkZxHEkfLxL4').equals(id)).toBe(true);
+    expect(fromColumn(toBuffer(id)).equals(id)).toBe(true);
+  });
+
+  it('should convert to and from hex literals', () => {
+    expect(toHexLiteral(id)).toBe(`'\\x${hex}'::bytea`);
+    expect(toHexLiteral(id, 'mysql')).toBe(`X'${hex}'`);
+    expect(toHexLiteral(id, 'sqlite')).toBe(`X'${hex}'`);
+
+    for (const literal of [`'\\x${hex}'::bytea`, `\\x${hex}`, `X'${hex}'`, `x'${hex}'`, `0x${hex}`, hex.toUpperCase()]) {
+      expect(fromHexLiteral(literal).equals(id)).toBe(true);
+    }
+  });
+
+  it('should read back hex literals from SQLite', () => {
+    const [value] = column(`SELECT ${toHexLiteral(id, 'sqlite')}`);
+    expect(fromColumn(value).equals(id)).toBe(true);
+  });
+
+  it('should build BETWEEN conditions', () => {
+    const start = new Date('2020-01-01T00:00:00Z');
+    const end = new Date('2020-01-02T00:00:00Z');
+    const { min, max } = KSUID.rangeFor(start, end);
+
+    const postgres = whereBetween(start, end);
+    expect(postgres.sql).toBe('id BETWEEN $1 AND $2');
+    expect(postgres.params).toEqual([toBuffer(min), toBuffer(max)]);
+
+    expect(whereBetween(start, end, { column: 'event_id', firstParam: 3 }).sql).toBe('event_id BETWEEN $3 AND $4');
+
+    const mysql = whereBetween(start, end, { dialect: 'mysql', type: 'text' });
+    expect(mysql.sql).toBe('id BETWEEN ? AND ?');
+    expect(mysql.params).toEqual([min.toString(), max.toString()]);
+
+    expect(() => whereBetween(end, start)).toThrowError('Range start must not be after its end');
+  });
+
+  it('should sort in KSUID order in SQLite', () => {
+    const ids = [KSUID.Nil, KSUID.Max];
+    for (let i = 0; i < 200; i++) {
+      ids.push(KSUID.randomWithTime(new Date(Date.UTC(2015 + (i % 100), i % 12, 1 + (i % 28)))));
+    }
+
+    for (const each of ids) {
+      db.run('INSERT INTO binary_ids VALUES (?)', [toBuffer(each)]);
+      db.run('INSERT INTO text_ids VALUES (?)', [toText(each)]);
+    }
+
+    const sorted = [...ids].sort((a, b) => a.compare(b));
+    const expected = sorted.map(each => each.toString());
+
+    expect(column('SELECT id FROM binary_ids ORDER BY id').map(value => fromColumn(value).toString())).toEqual(expected);
+    expect(column('SELECT id FROM text_ids ORDER BY id')).toEqual(expected);
+
+    // The time window selects the same IDs in both column types
+    const start = new Date('2030-01-01T00:00:00Z');
+    const end = new Date('2059-12-31T23:59:59Z');
+    const inRange = sorted
+      .filter(each => each.getTime() >= start && each.getTime() <= end)
+      .map(each => each.toString());
+    expect(inRange.length).toBeGreaterThan(0);
+
+    const binary = whereBetween(start, end, { dialect: 'sqlite' });
+    const text = whereBetween(start, end, { dialect: 'sqlite', type: 'text' });
+    expect(column(`SELECT id FROM binary_ids WHERE ${binary.sql} ORDER BY id`, binary.params)
+      .map(value => fromColumn(value).toString())).toEqual(inRange);
+    expect(column(`SELECT id FROM text_ids WHERE ${text.sql} ORDER BY id`, text.params)).toEqual(inRange);
+  });
+});
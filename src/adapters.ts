@@ -0,0 +1,117 @@
+/// <reference types="node" />
+
+import { KSUID } from './ksuid';
+import { BYTE_LENGTH } from './constants';
+import { KSUIDError } from './errors';
+
+/**
+ * SQL dialects supported by the database adapters
+ */
+export type SQLDialect = 'postgres' | 'mysql' | 'sqlite';
+
+/**
+ * How KSUIDs are stored in a column
+ * - `binary`: the raw 20 bytes (`bytea`, `BINARY(20)`, `BLOB`)
+ * - `text`: the 27 character base62 string
+ *
+ * Both sort in KSUID order, as long as text columns use a byte-wise collation
+ * (e.g. `COLLATE "C"` in Postgres, `ascii_bin` in MySQL, the SQLite default).
+ */
+export type ColumnType = 'binary' | 'text';
+
+/**
+ * A parameterized SQL condition along with its bound values
+ */
+export interface SQLCondition<T = Buffer | string> {
+  sql: string;
+  params: [T, T];
+}
+
+/**
+ * Convert a KSUID to a Node Buffer, e.g. to bind it to a binary column
+ */
+export function toBuffer(id: KSUID): Buffer {
+  return Buffer.from(id.getBytes());
+}
+
+/**
+ * Convert a binary column value (Buffer or Uint8Array) to a KSUID
+ */
+export function fromBuffer(buffer: Uint8Array): KSUID {
+  if (buffer.length !== BYTE_LENGTH) {
+    throw new KSUIDError(`Binary KSUID must be ${BYTE_LENGTH} bytes, got ${buffer.length}`);
+  }
+  return new KSUID(buffer);
+}
+
+/**
+ * Convert a KSUID to the value stored in a text column
+ */
+export function toText(id: KSUID): string {
+  return id.toString();
+}
+
+/**
+ * Convert a text column value to a KSUID
+ */
+export function fromText(value: string): KSUID {
+  return KSUID.parse(value);
+}
+
+/**
+ * Convert a KSUID to a binary SQL literal, for hand-written queries and migrations
+ * - postgres: `'\x0858...'::bytea`
+ * - mysql, sqlite: `X'0858...'`
+ */
+export function toHexLiteral(id: KSUID, dialect: SQLDialect = 'postgres'): string {
+  const hex = id.toString('hex');
+  return dialect === 'postgres' ? `'\\x${hex}'::bytea` : `X'${hex}'`;
+}
+
+/**
+ * Parse a hex representation of a KSUID as printed by database tools:
+ * `\x0858...` (Postgres), `X'0858...'` (MySQL, SQLite), `0x0858...` or plain hex
+ */
+export function fromHexLiteral(literal: string): KSUID {
+  const hex = literal.trim()
+    .replace(/::bytea$/i, '')
+    .replace(/^'(.*)'$/, '$1')
+    .replace(/^\\x|^0x|^x'(.*)'$/i, '$1');
+  return KSUID.parse(hex, 'hex');
+}
+
+/**
+ * Convert any column value returned by a driver to a KSUID:
+ * binary values are read as raw bytes, strings as base62
+ */
+export function fromColumn(value: Uint8Array | string): KSUID {
+  return typeof value === 'string' ? fromText(value) : fromBuffer(value);
+}
+
+/**
+ * Parameterized `BETWEEN` condition selecting the IDs generated between two dates, inclusive
+ * Placeholders are `$n` for Postgres and `?` for MySQL and SQLite.
+ * The column name is inserted as-is and must not come from user input.
+ */
+export function whereBetween(
+  start: Date,
+  end: Date,
+  options: { column?: string, dialect?: SQLDialect, type?: ColumnType, firstParam?: number } = {}
+): SQLCondition {
+  const column = options.column ?? 'id';
+  const dialect = options.dialect ?? 'postgres';
+  const firstParam = options.firstParam ?? 1;
+  const { min, max } = KSUID.rangeFor(start, end);
+
+  const placeholders = dialect === 'postgres'
+    ? [`$${firstParam}`, `$${firstParam + 1}`]
+    : ['?', '?'];
+  const params: [Buffer | string, Buffer | string] = options.type === 'text'
+    ? [toText(min), toText(max)]
+    : [toBuffer(min), toBuffer(max)];
+
+  return {
+    sql: `${column} BETWEEN ${placeholders[0]} AND ${placeholders[1]}`,
+    params
+  };
+}
@@ -0,0 +1,83 @@
+import { decodeBase62, decodeInto, encodeBase62, encodeInto } from './base62';
+import { BYTE_LENGTH, MAX_STRING_ENCODED, STRING_ENCODED_LENGTH } from './constants';
+import { KSUID } from './ksuid';
+import { KSUIDParseError } from './errors';
+
+/**
+ * ASCII bytes of a string
+ */
+function ascii(str: string): Uint8Array {
+  return Uint8Array.from(str, c => c.charCodeAt(0));
+}
+
+describe('base62', () => {
+  it('should encode and decode known values', () => {
+    const bytes = new Uint8Array(BYTE_LENGTH).fill(0xFF);
+    expect(encodeBase62(bytes)).toBe(MAX_STRING_ENCODED);
+    expect(Array.from(decodeBase62(MAX_STRING_ENCODED))).toEqual(Array.from(bytes));
+
+    const id = decodeBase62('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(Buffer.from(id).toString('hex')).toBe('08581913f971348b516762380e521f2744dad62e');
+  });
+
+  it('should encode into a buffer at an offset', () => {
+    const ids = [KSUID.new(), KSUID.new()];
+    const src = new Uint8Array(2 * BYTE_LENGTH);
+    src.set(ids[0].getBytes(), 0);
+    src.set(ids[1].getBytes(), BYTE_LENGTH);
+
+    const dst = new Uint8Array(3 + 2 * STRING_ENCODED_LENGTH);
+    encodeInto(dst, 3, src, 0);
+    encodeInto(dst, 3 + STRING_ENCODED_LENGTH, src, BYTE_LENGTH);
+
+    expect(Array.from(dst.subarray(0, 3))).toEqual([0, 0, 0]);
+    expect(Buffer.from(dst.subarray(3)).toString('ascii')).toBe(ids[0].toString() + ids[1].toString());
+  });
+
+  it('should decode into a buffer at an offset', () => {
+    const id = KSUID.new();
+    const src = ascii(`  ${id.toString()}`);
+    const dst = new Uint8Array(5 + BYTE_LENGTH);
+
+    expect(decodeInto(dst, 5, src, 2)).toBe(true);
+    expect(Array.from(dst.subarray(5))).toEqual(Array.from(id.getBytes()));
+  });
+
+  it('should reject invalid input without touching the destination', () => {
+    const dst = new Uint8Array(BYTE_LENGTH).fill(7);
+
+    expect(decodeInto(dst, 0, ascii('aWgEPTl1tmebfsQzFP4bxwgy80W'))).toBe(false);
+    expect(decodeInto(dst, 0, ascii('0ujtsYcgvSTl8PAuAd-WYSMnLOv'))).toBe(false);
+    expect(Array.from(dst)).toEqual(new Array(BYTE_LENGTH).fill(7));
+  });
+
+  it('should report the position of the offending character', () => {
+    const cases: [string, number][] = [
+      ['aWgEPTl1tmebfsQzFP4bxwgy80W', 26],
+      ['aWgEPTl1tmebfsQzGP4bxwgy80V', 16],
+      ['b00000000000000000000000000', 0],
+      ['0ujtsYcgvSTl8PAuAd-WYSMnLOv', 18],
+      ['0ujtsYcgvSTl8PAuAdqWYSMnLO', 26],
+      ['0ujtsYcgvSTl8PAuAdqWYSMnLOvX', 27]
+    ];
+
+    for (const [str, position] of cases) {
+      try {
+        decodeBase62(str);
+        fail(`expected ${str} to be rejected`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(KSUIDParseError);
+        expect((error as KSUIDParseError).position).toBe(position);
+        expect((error as KSUIDParseError).input).toBe(str);
+      }
+    }
+  });
+
+  it('should reject offsets out of the buffer bounds', () => {
+    const bytes = new Uint8Array(BYTE_LENGTH);
+    const chars = new Uint8Array(STRING_ENCODED_LENGTH);
+
+    expect(() => encodeInto(chars, 1, bytes)).toThrowError('Offsets are out of the buffer bounds');
+    expect(() => decodeInto(bytes, 1, chars)).toThrowError('Offsets are out of the buffer bounds');
+  });
+});
@@ -1,14 +1,37 @@
 import { 
   BASE62_CHARACTERS, 
-  ZERO_STRING, 
   OFFSET_UPPERCASE, 
   OFFSET_LOWERCASE,
   STRING_ENCODED_LENGTH,
-  BYTE_LENGTH
+  BYTE_LENGTH,
+  MAX_STRING_ENCODED
 } from './constants';
+import { KSUIDParseError, KSUIDRangeError } from './errors';
+
+// Number of 32-bit words in a binary KSUID
+const WORD_COUNT = BYTE_LENGTH / 4;
+const WORD_BASE = 4294967296; // 2^32
+
+// ASCII codes of the base62 digits
+const BASE62_CODES = Uint8Array.from(BASE62_CHARACTERS, c => c.charCodeAt(0));
+
+// Base62 value of every ASCII code, 0xFF for codes that are not base62 digits
+const BASE62_VALUES = (() => {
+  const values = new Uint8Array(256).fill(0xFF);
+  BASE62_CODES.forEach((code, value) => {
+    values[code] = value;
+  });
+  return values;
+})();
+
+// Scratch buffers reused across calls so the codec doesn't allocate on hot paths
+const words = new Uint32Array(WORD_COUNT);
+const digits = new Uint8Array(STRING_ENCODED_LENGTH);
+const characters = new Uint8Array(STRING_ENCODED_LENGTH);
 
 /**
  * Converts a base 62 character into the number value that it represents
+ * Returns -1 if the character is not a base 62 digit
  */
 export function base62Value(digit: string): number {
   const charCode = digit.charCodeAt(0);
@@ -16,128 +39,176 @@ export function base62Value(digit: string): number {
     return charCode - 48;
   } else if (charCode >= 65 && charCode <= 90) { // A-Z
     return OFFSET_UPPERCASE + (charCode - 65);
-  } else { // a-z
+  } else if (charCode >= 97 && charCode <= 122) { // a-z
     return OFFSET_LOWERCASE + (charCode - 97);
   }
+  return -1;
+}
+
+/**
+ * Returns the index of the first character of str that is not a base 62 digit, or -1
+ */
+export function invalidBase62Index(str: string): number {
+  for (let i = 0; i < str.length; i++) {
+    if (base62Value(str[i]) < 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Returns the index of the first character that makes a STRING_ENCODED_LENGTH base62 string
+ * exceed MAX_STRING_ENCODED, or -1
+ */
+export function overflowBase62Index(str: string): number {
+  // Base62 digits are in ASCII order, so the first character above MAX_STRING_ENCODED is the offending one
+  for (let i = 0; i < STRING_ENCODED_LENGTH; i++) {
+    if (str[i] !== MAX_STRING_ENCODED[i]) {
+      return str[i] > MAX_STRING_ENCODED[i] ? i : -1;
+    }
+  }
+  return -1;
 }
 
 /**
  * Encodes a Uint8Array to base62 string
  */
 export function encodeBase62(bytes: Uint8Array): string {
-  return fastEncodeBase62(bytes);
+  encodeInto(characters, 0, bytes, 0);
+  return String.fromCharCode(...characters);
 }
 
 /**
  * Decodes a base62 string to Uint8Array
  */
 export function decodeBase62(str: string): Uint8Array {
+  const invalid = invalidBase62Index(str);
+  if (invalid >= 0) {
+    throw new KSUIDParseError(`Invalid base62 character "${str[invalid]}" at position ${invalid}`, str, invalid);
+  }
+
+  if (str.length !== STRING_ENCODED_LENGTH) {
+    // The first extra character, or where the first missing one should be
+    const position = Math.min(str.length, STRING_ENCODED_LENGTH);
+    throw new KSUIDParseError(`Valid encoded KSUIDs are ${STRING_ENCODED_LENGTH} characters`, str, position);
+  }
+
   const dst = new Uint8Array(BYTE_LENGTH);
-  if (fastDecodeBase62(dst, new TextEncoder().encode(str))) {
+  for (let i = 0; i < STRING_ENCODED_LENGTH; i++) {
+    characters[i] = str.charCodeAt(i);
+  }
+  if (decodeInto(dst, 0, characters, 0)) {
     return dst;
   }
-  throw new Error('Failed to decode base62 string');
+
+  const position = overflowBase62Index(str);
+  throw new KSUIDParseError(`Base62 value exceeds ${MAX_STRING_ENCODED} at position ${position}`, str, position);
 }
 
 /**
- * Optimized base62 encoding implementation
+ * Encodes the BYTE_LENGTH bytes of src starting at srcOffset as STRING_ENCODED_LENGTH
+ * ASCII base62 characters, written into dst starting at dstOffset
  */
-export function fastEncodeBase62(src: Uint8Array): string {
-  const dst = new Uint8Array(STRING_ENCODED_LENGTH);
-  
-  // Split src into 5 4-byte words
-  const parts = [
-    (src[0] << 24) | (src[1] << 16) | (src[2] << 8) | src[3],
-    (src[4] << 24) | (src[5] << 16) | (src[6] << 8) | src[7],
-    (src[8] << 24) | (src[9] << 16) | (src[10] << 8) | src[11],
-    (src[12] << 24) | (src[13] << 16) | (src[14] << 8) | src[15],
-    (src[16] << 24) | (src[17] << 16) | (src[18] << 8) | src[19],
-  ];
-  
-  const srcBase = 4294967296; // 2^32
-  const dstBase = 62;
-  
-  let bp = [...parts];
-  let n = STRING_ENCODED_LENGTH;
-  
-  while (bp.length !== 0) {
-    const quotient: number[] = [];
+export function encodeInto(dst: Uint8Array, dstOffset: number, src: Uint8Array, srcOffset: number = 0): void {
+  if (dstOffset < 0 || dstOffset + STRING_ENCODED_LENGTH > dst.length ||
+      srcOffset < 0 || srcOffset + BYTE_LENGTH > src.length) {
+    throw new KSUIDRangeError('Offsets are out of the buffer bounds');
+  }
+
+  // Split src into 5 big-endian 4-byte words, the Uint32Array keeps them unsigned
+  for (let i = 0; i < WORD_COUNT; i++) {
+    const o = srcOffset + 4 * i;
+    words[i] = (src[o] << 24) | (src[o + 1] << 16) | (src[o + 2] << 8) | src[o + 3];
+  }
+
+  // Repeatedly divide the 160-bit number by 62 in place, emitting the remainders
+  // from the least significant digit. Leading zero words are skipped.
+  let start = 0;
+  for (let n = STRING_ENCODED_LENGTH - 1; n >= 0; n--) {
     let remainder = 0;
-    
-    for (const c of bp) {
-      // This is emulating bigint arithmetic since JS doesn't handle 128-bit integers well
-      const value = c + remainder * srcBase;
-      const digit = Math.floor(value / dstBase);
-      remainder = value % dstBase;
-      
-      if (quotient.length !== 0 || digit !== 0) {
-        quotient.push(digit);
-      }
+    for (let i = start; i < WORD_COUNT; i++) {
+      // Stays below 62 * 2^32, well within the safe integer range
+      const value = words[i] + remainder * WORD_BASE;
+      const quotient = Math.floor(value / 62);
+      remainder = value - quotient * 62;
+      words[i] = quotient;
+    }
+    dst[dstOffset + n] = BASE62_CODES[remainder];
+
+    while (start < WORD_COUNT && words[start] === 0) {
+      start++;
     }
-    
-    n--;
-    dst[n] = BASE62_CHARACTERS.charCodeAt(remainder);
-    bp = quotient;
-  }
-  
-  // Add padding at the head of the destination buffer
-  for (let i = 0; i < n; i++) {
-    dst[i] = ZERO_STRING.charCodeAt(i);
-  }
-  
-  return new TextDecoder().decode(dst);
+  }
 }
 
 /**
- * Optimized base62 decoding implementation
+ * Decodes the STRING_ENCODED_LENGTH ASCII base62 characters of src starting at srcOffset
+ * into BYTE_LENGTH bytes, written into dst starting at dstOffset
+ * Returns false, leaving dst untouched, if src holds an invalid character or overflows 160 bits
  */
-export function fastDecodeBase62(dst: Uint8Array, src: Uint8Array): boolean {
-  if (src.length !== STRING_ENCODED_LENGTH) {
-    return false;
+export function decodeInto(dst: Uint8Array, dstOffset: number, src: Uint8Array, srcOffset: number = 0): boolean {
+  if (dstOffset < 0 || dstOffset + BYTE_LENGTH > dst.length ||
+      srcOffset < 0 || srcOffset + STRING_ENCODED_LENGTH > src.length) {
+    throw new KSUIDRangeError('Offsets are out of the buffer bounds');
   }
-  
-  const srcBase = 62;
-  const dstBase = 4294967296; // 2^32
-  
+
   // Convert base62 characters to their numeric value
-  const parts = new Uint8Array(STRING_ENCODED_LENGTH);
   for (let i = 0; i < STRING_ENCODED_LENGTH; i++) {
-    parts[i] = base62Value(String.fromCharCode(src[i]));
-  }
-  
-  let n = BYTE_LENGTH;
-  let bp = Array.from(parts);
-  
-  while (bp.length > 0) {
-    const quotient: number[] = [];
+    const value = BASE62_VALUES[src[srcOffset + i]];
+    if (value === 0xFF) {
+      return false;
+    }
+    digits[i] = value;
+  }
+
+  // Repeatedly divide the base62 number by 2^32 in place, producing the words
+  // from the least significant one. Leading zero digits are skipped.
+  let start = 0;
+  for (let n = WORD_COUNT - 1; n >= 0; n--) {
     let remainder = 0;
-    
-    for (const c of bp) {
-      const value = c + remainder * srcBase;
-      const digit = Math.floor(value / dstBase);
-      remainder = value % dstBase;
-      
-      if (quotient.length !== 0 || digit !== 0) {
-        quotient.push(digit);
-      }
+    for (let i = start; i < STRING_ENCODED_LENGTH; i++) {
+      const value = digits[i] + remainder * 62;
+      const quotient = Math.floor(value / WORD_BASE);
+      remainder = value - quotient * WORD_BASE;
+      digits[i] = quotient;
     }
-    
-    if (n < 4) {
-      return false;
+    words[n] = remainder;
+
+    while (start < STRING_ENCODED_LENGTH && digits[start] === 0) {
+      start++;
     }
-    
-    dst[n-4] = (remainder >> 24) & 0xFF;
-    dst[n-3] = (remainder >> 16) & 0xFF;
-    dst[n-2] = (remainder >> 8) & 0xFF;
-    dst[n-1] = remainder & 0xFF;
-    n -= 4;
-    bp = quotient;
-  }
-  
-  // Zero out any remaining bytes
-  for (let i = 0; i < n; i++) {
-    dst[i] = 0;
-  }
-  
+  }
+
+  // Anything left does not fit in 160 bits
+  if (start !== STRING_ENCODED_LENGTH) {
+    return false;
+  }
+
+  for (let i = 0; i < WORD_COUNT; i++) {
+    const o = dstOffset + 4 * i;
+    dst[o] = words[i] >>> 24;
+    dst[o + 1] = (words[i] >>> 16) & 0xFF;
+    dst[o + 2] = (words[i] >>> 8) & 0xFF;
+    dst[o + 3] = words[i] & 0xFF;
+  }
+
   return true;
-} 
\ No newline at end of file
+}
+
+/**
+ * Optimized base62 encoding implementation
+ */
+export function fastEncodeBase62(src: Uint8Array): string {
+  return encodeBase62(src);
+}
+
+/**
+ * Optimized base62 decoding implementation
+ */
+export function fastDecodeBase62(dst: Uint8Array, src: Uint8Array): boolean {
+  if (src.length !== STRING_ENCODED_LENGTH || dst.length < BYTE_LENGTH) {
+    return false;
+  }
+  return decodeInto(dst, 0, src, 0);
+}
@@ -0,0 +1,335 @@
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KSUID } from './ksuid';
+
+const ROOT = path.join(__dirname, '..');
+
+let dir: string;
+let cli: string;
+
+/**
+ * Run the built CLI with the given arguments, writing input to its stdin
+ */
+function run(
+  args: string[],
+  input: string = '',
+  env: Record<string, string> = {}
+): { status: number | null, stdout: string, stderr: string } {
+  const result = spawnSync(process.execPath, [cli, ...args], {
+    input,
+    encoding: 'utf8',
+    // The build lives outside of the package, so dependencies are resolved from it explicitly
+    env: { ...process.env, NODE_PATH: path.join(ROOT, 'node_modules'), ...env }
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+/**
+ * Write a fixture file in the temporary directory, returning its path
+ */
+function fixture(name: string, content: string | Uint8Array): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+/**
+ * Lines printed on stdout, without the trailing newline
+ */
+function lines(stdout: string): string[] {
+  return stdout === '' ? [] : stdout.replace(/\n$/, '').split('\n');
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ksuid-cli-'));
+  execFileSync(process.execPath, [
+    require.resolve('typescript/bin/tsc'),
+    '-p', ROOT,
+    '--outDir', path.join(dir, 'dist'),
+    '--declaration', 'false'
+  ]);
+  cli = path.join(dir, 'dist', 'cli.js');
+}, 120000);
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('ksuid CLI', () => {
+  const id = '1BoZGMuixPtHRHwvkZxHEkfLxL4';
+  const other = '0ujtsYcgvSTl8PAuAdqWYSMnLOv';
+
+  describe('input', () => {
+    it('should only read stdin for "-"', () => {
+      // Without arguments a KSUID is generated and stdin is left alone
+      const generated = run([], `${id}\n`);
+      expect(generated.status).toBe(0);
+      expect(lines(generated.stdout)).toHaveLength(1);
+      expect(generated.stdout).not.toContain(id);
+
+      const parsed = run(['-f', 'timestamp', other, '-', other], `${id}\n\n${id}\n`);
+      expect(parsed.status).toBe(0);
+      expect(lines(parsed.stdout)).toEqual(['107608047', '139991315', '139991315', '107608047']);
+    });
+
+    it('should stop at the first invalid input by default', () => {
+      for (const args of [[], ['--strict']]) {
+        const result = run([...args, '-f', 'timestamp', '-'], `${id}\n\nbad\n${other}\n`);
+        expect(result.status).toBe(1);
+        expect(lines(result.stdout)).toEqual(['139991315']);
+        expect(result.stderr).toBe('Error parsing line 3 "bad": Valid encoded KSUIDs are 27 characters\n');
+      }
+    });
+
+    it('should skip invalid input with --skip-invalid, exiting with status 1', () => {
+      const skipped = run(['--skip-invalid', '-f', 'timestamp', id, 'bad', '-'], `nope\n${other}\n`);
+      expect(skipped.status).toBe(1);
+      expect(lines(skipped.stdout)).toEqual(['139991315', '107608047']);
+      expect(lines(skipped.stderr)).toEqual([
+        'Error parsing "bad": Valid encoded KSUIDs are 27 characters',
+        'Error parsing line 1 "nope": Valid encoded KSUIDs are 27 characters'
+      ]);
+
+      const valid = run(['--skip-invalid', id]);
+      expect(valid.status).toBe(0);
+      expect(valid.stdout).toBe(`${id}\n`);
+    });
+
+    it('should not report output errors as invalid input', () => {
+      const result = run(['--skip-invalid', '-t', '{{.Nope}}', id, other]);
+      expect(result.status).toBe(1);
+      expect(result.stdout).toBe('');
+      expect(result.stderr).toBe('Can\'t evaluate field Nope in the KSUID\n');
+    });
+
+    it('should reject --skip-invalid with --strict', () => {
+      const result = run(['--skip-invalid', '--strict', id]);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toBe('Options --skip-invalid and --strict cannot be used together\n');
+    });
+  });
+
+  describe('output formats', () => {
+    it('should print a JSON object per KSUID', () => {
+      const result = run(['-f', 'json', id, '-'], `${other}\n`);
+      expect(result.status).toBe(0);
+      expect(lines(result.stdout).map(line => JSON.parse(line))).toEqual([
+        {
+          string: id,
+          raw: '08581913F971348B516762380E521F2744DAD62E',
+          time: '2018-10-19T23:21:55.000Z',
+          timestamp: 139991315,
+          payload: 'F971348B516762380E521F2744DAD62E'
+        },
+        {
+          string: other,
+          raw: '0669F7EFB5A1CD34B5F99D1154FB6853345C9735',
+          time: '2017-10-10T04:00:47.000Z',
+          timestamp: 107608047,
+          payload: 'B5A1CD34B5F99D1154FB6853345C9735'
+        }
+      ]);
+    });
+
+    it('should print CSV rows after a single header', () => {
+      const result = run(['-f', 'csv', id, '-'], `${other}\n`);
+      expect(result.status).toBe(0);
+      expect(lines(result.stdout)).toEqual([
+        'string,raw,time,timestamp,payload',
+        `${id},08581913F971348B516762380E521F2744DAD62E,2018-10-19T23:21:55.000Z,139991315,F971348B516762380E521F2744DAD62E`,
+        `${other},0669F7EFB5A1CD34B5F99D1154FB6853345C9735,2017-10-10T04:00:47.000Z,107608047,B5A1CD34B5F99D1154FB6853345C9735`
+      ]);
+
+      const generated = lines(run(['-f', 'csv', '-n', '3']).stdout);
+      expect(generated).toHaveLength(4);
+      expect(generated[0]).toBe('string,raw,time,timestamp,payload');
+      expect(generated.slice(1).every(line => /^[0-9A-Za-z]{27},[0-9A-F]{40},[^,]+,[0-9]+,[0-9A-F]{32}$/.test(line))).toBe(true);
+    });
+
+    it('should reject unknown formats', () => {
+      const result = run(['-f', 'yaml', id]);
+      expect(result.status).toBe(1);
+      expect(result.stdout).toBe('');
+      expect(result.stderr).toBe('Invalid format: yaml\n');
+    });
+  });
+
+  describe('generation', () => {
+    it('should generate KSUIDs at the --time given as an ISO 8601 date or Unix seconds', () => {
+      const iso = run(['--time', '2020-01-01T00:00:00Z', '-n', '3', '-f', 'time']);
+      expect(iso.status).toBe(0);
+      expect(lines(iso.stdout)).toEqual(Array(3).fill('2020-01-01T00:00:00.000Z'));
+
+      const seconds = run(['--time', '1577836800', '-f', 'time']);
+      expect(lines(seconds.stdout)).toEqual(['2020-01-01T00:00:00.000Z']);
+    });
+
+    it('should spread KSUIDs evenly from --from to --to', () => {
+      const result = run(['--from', '2020-01-01T00:00:00Z', '--to', '2020-01-01T00:00:10Z', '-n', '3', '-f', 'time']);
+      expect(result.status).toBe(0);
+      expect(lines(result.stdout)).toEqual([
+        '2020-01-01T00:00:00.000Z',
+        '2020-01-01T00:00:05.000Z',
+        '2020-01-01T00:00:10.000Z'
+      ]);
+    });
+
+    it('should print the lowest and highest KSUIDs of a time window with --bounds', () => {
+      const second = run(['--bounds', '--time', '2020-01-01T00:00:00Z', '-f', 'hex']);
+      expect(second.status).toBe(0);
+      expect(lines(second.stdout)).toEqual([
+        '0a999300' + '0'.repeat(32),
+        '0a999300' + 'f'.repeat(32)
+      ]);
+
+      const window = run(['--bounds', '--from', '2020-01-01T00:00:00Z', '--to', '2020-02-01T00:00:00Z', '-f', 'hex']);
+      expect(lines(window.stdout)).toEqual([
+        '0a999300' + '0'.repeat(32),
+        '0ac27180' + 'f'.repeat(32)
+      ]);
+    });
+
+    it('should generate ordered KSUIDs with --sequence', () => {
+      const seeded = run(['--sequence', id, '-n', '3', '-f', 'hex']);
+      expect(seeded.status).toBe(0);
+      expect(lines(seeded.stdout)).toEqual([
+        '08581913f971348b516762380e521f2744da0000',
+        '08581913f971348b516762380e521f2744da0001',
+        '08581913f971348b516762380e521f2744da0002'
+      ]);
+
+      const timed = lines(run(['--sequence', '--time', '2020-01-01T00:00:00Z', '-n', '3', '-f', 'hex']).stdout);
+      expect(timed).toHaveLength(3);
+      expect(timed.every(line => line.startsWith('0a999300'))).toBe(true);
+      expect(timed.map(line => line.slice(-4))).toEqual(['0000', '0001', '0002']);
+      expect(new Set(timed.map(line => line.slice(0, -4))).size).toBe(1);
+    });
+
+    it('should reject conflicting options', () => {
+      const cases: [string[], string][] = [
+        [['--time', '2020-01-01', '--from', '2020-01-01'], 'Options --time and --from cannot be used together'],
+        [['--sequence', '--from', '2020-01-01'], 'Options --sequence and --from cannot be used together'],
+        [['--sequence', id, '--time', '2020-01-01'], 'Option --time cannot be used with a --sequence seed, which has its own time'],
+        [['--to', '2020-01-01'], 'Option --to requires --from'],
+        [['--bounds'], 'Option --bounds requires --time or --from'],
+        [['--time', 'nope'], 'Invalid --time "nope": expected an ISO 8601 date or Unix seconds'],
+        [['--from', '2020-02-01', '--to', '2020-01-01'], 'Range start must not be after its end'],
+        [['--time', '2020-01-01', id], 'Options -n, --time, --from, --to, --bounds and --sequence cannot be used with KSUID arguments']
+      ];
+
+      for (const [args, message] of cases) {
+        const result = run(args);
+        expect(result.status).toBe(1);
+        expect(result.stdout).toBe('');
+        expect(result.stderr).toBe(`${message}\n`);
+      }
+    });
+  });
+
+  describe('subcommands', () => {
+    // Several KSUIDs share each timestamp, so both parts of the KSUIDs are compared
+    const ids = Array.from({ length: 10 }, (_, i) =>
+      KSUID.fromParts(new Date(Date.UTC(2020, 0, 1, 0, 0, i % 3)), new Uint8Array(16).fill(i * 25)).toString());
+    const sorted = [...ids].sort();
+    const text = (list: string[]) => list.map(line => `${line}\n`).join('');
+
+    it('should sort KSUIDs through spilled runs', () => {
+      const tmp = fs.mkdtempSync(path.join(dir, 'tmp-'));
+      // Unsorted, with duplicates, split between a file and stdin
+      const file = fixture('unsorted.txt', text([...ids].reverse()));
+      const result = run(['sort', '--buffer-size', '3', file, '-'], text(ids.slice(0, 4)), { TMPDIR: tmp });
+      expect(result.status).toBe(0);
+      expect(lines(result.stdout)).toEqual([...ids, ...ids.slice(0, 4)].sort());
+      // The runs are removed once merged
+      expect(fs.readdirSync(tmp)).toEqual([]);
+    });
+
+    it('should drop duplicates with sort -u and uniq', () => {
+      const file = fixture('duplicates.txt', text([...ids, ...ids].reverse()));
+      const unique = run(['sort', '-u', '--buffer-size', '4', file]);
+      expect(unique.status).toBe(0);
+      expect(lines(unique.stdout)).toEqual(sorted);
+
+      // uniq only drops KSUIDs repeating the one before them
+      const uniq = run(['uniq', '-'], text([sorted[0], sorted[0], sorted[1], sorted[0], sorted[0]]));
+      expect(uniq.status).toBe(0);
+      expect(lines(uniq.stdout)).toEqual([sorted[0], sorted[1], sorted[0]]);
+    });
+
+    it('should report invalid sort input and buffer sizes', () => {
+      const invalid = run(['sort', '-'], `${sorted[0]}\nbad\n`);
+      expect(invalid.status).toBe(1);
+      expect(invalid.stderr).toBe('Error parsing stdin line 2 "bad": Valid encoded KSUIDs are 27 characters\n');
+
+      const buffer = run(['sort', '--buffer-size', '0', '-'], '');
+      expect(buffer.status).toBe(1);
+      expect(buffer.stderr).toBe('Invalid buffer size: 0\n');
+    });
+
+    it('should diff sorted lists', () => {
+      const a = fixture('a.txt', text(sorted.slice(0, 6)));
+      const b = fixture('b.txt', text(sorted.slice(3)));
+      const result = run(['diff', a, b]);
+      expect(result.status).toBe(1);
+      expect(lines(result.stdout)).toEqual([
+        ...sorted.slice(0, 3).map(id => `< ${id}`),
+        ...sorted.slice(6).map(id => `> ${id}`)
+      ]);
+
+      const same = run(['diff', a, '-'], text(sorted.slice(0, 6)));
+      expect(same.status).toBe(0);
+      expect(same.stdout).toBe('');
+
+      const stdin = run(['diff', '-', '-']);
+      expect(stdin.status).toBe(1);
+      expect(stdin.stderr).toBe('Only one of the inputs can be read from stdin\n');
+    });
+
+    it('should check that KSUIDs are sorted', () => {
+      expect(run(['check-sorted', fixture('sorted.txt', text(sorted))]).status).toBe(0);
+
+      const unsorted = fixture('swapped.txt', text([sorted[0], sorted[2], sorted[1]]));
+      const result = run(['check-sorted', unsorted]);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toBe(`${unsorted} line 3: ${sorted[1]} is lower than the KSUID before it\n`);
+
+      // Repeated KSUIDs are sorted, unless -u is given
+      const repeated = text([sorted[0], sorted[1], sorted[1]]);
+      expect(run(['check-sorted', '-'], repeated).status).toBe(0);
+      const unique = run(['check-sorted', '-u', '-'], repeated);
+      expect(unique.status).toBe(1);
+      expect(unique.stderr).toBe(`stdin line 3: ${sorted[1]} repeats the KSUID before it\n`);
+    });
+
+    it('should read raw KSUIDs with --raw', () => {
+      const raw = (list: string[]) => Buffer.concat(list.map(id => KSUID.parse(id).getBytes()));
+      expect(run(['check-sorted', '--raw', fixture('sorted.bin', raw(sorted))]).status).toBe(0);
+      expect(run(['check-sorted', '--raw', fixture('unsorted.bin', raw([...sorted].reverse()))]).status).toBe(1);
+
+      const partial = fixture('partial.bin', raw(sorted).subarray(0, 28));
+      const result = run(['check-sorted', '--raw', partial]);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toBe(`${partial} ends with a partial KSUID of 8 bytes\n`);
+    });
+
+    it('should reject root options and unknown formats', () => {
+      const file = fixture('options.txt', text(sorted));
+      const cases: [string[], string][] = [
+        [['-n', '2', 'sort', file], 'Option -n cannot be used with a subcommand'],
+        [['-f', 'hex', 'uniq', file], 'Option -f cannot be used with a subcommand'],
+        [['-f', 'yaml', 'sort', file], 'Option -f cannot be used with a subcommand'],
+        [['--skip-invalid', 'check-sorted', file], 'Option --skip-invalid cannot be used with a subcommand'],
+        [['--time', '2020-01-01', 'diff', file, file], 'Option --time cannot be used with a subcommand']
+      ];
+
+      for (const [args, message] of cases) {
+        const result = run(args);
+        expect(result.status).toBe(1);
+        expect(result.stdout).toBe('');
+        expect(result.stderr).toBe(`${message}\n`);
+      }
+    });
+  });
+});
@@ -1,8 +1,20 @@
 #!/usr/bin/env node
 /// <reference types="node" />
 
-import { KSUID } from './ksuid';
+import { KSUID, compareBytes } from './ksuid';
+import { KSUIDFactory } from './factory';
+import { KSUIDTemplate } from './template';
+import { Sequence } from './sequence';
+import { KSUIDError, KSUIDRangeError } from './errors';
+import { BYTE_LENGTH, PAYLOAD_BYTE_LENGTH, STRING_ENCODED_LENGTH } from './constants';
+import { encodeInto } from './base62';
+import { Encoding, detectEncoding, isEncoding } from './encodings';
 import { Command } from 'commander';
+import { once } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
 
 /**
  * Convert a Uint8Array to a hex string
@@ -14,6 +26,37 @@ function bytesToHex(bytes: Uint8Array): string {
     .toUpperCase();
 }
 
+/**
+ * Buffered stdout writer, so generating large batches doesn't issue one write per ID
+ * Pending output is also flushed once the current batch of input lines is processed
+ */
+const outputChunks: Buffer[] = [];
+let outputSize = 0;
+let flushScheduled = false;
+
+function output(data: string | Uint8Array): void {
+  const chunk = typeof data === 'string' ? Buffer.from(data) : Buffer.from(data);
+  outputChunks.push(chunk);
+  outputSize += chunk.length;
+  if (outputSize >= 65536) {
+    flushOutput();
+  } else if (!flushScheduled) {
+    flushScheduled = true;
+    setImmediate(() => {
+      flushScheduled = false;
+      flushOutput();
+    });
+  }
+}
+
+function flushOutput(): void {
+  if (outputChunks.length !== 0) {
+    process.stdout.write(Buffer.concat(outputChunks, outputSize));
+    outputChunks.length = 0;
+    outputSize = 0;
+  }
+}
+
 const program = new Command();
 
 program
@@ -22,22 +65,214 @@ program
   .version('1.0.0');
 
 program
+  .argument('[ksuids...]', 'KSUIDs to parse, in any encoding, or "-" to read them from stdin')
   .option('-n <count>', 'Number of KSUIDs to generate when no arguments are given', '1')
-  .option('-f <format>', 'Output format (string, inspect, time, timestamp, payload, raw)', 'string')
-  .option('-t <template>', 'Go-like template string for custom formatting')
-  .option('-v', 'Verbose mode', false);
+  .option('-f <format>', 'Output format (string, inspect, time, timestamp, payload, raw, template, json, csv, base62, hex, base32, base64url)', 'string')
+  .option('--input-encoding <encoding>', 'Encoding of the KSUIDs to parse (base62, hex, base32, base64url), instead of detecting it')
+  .option('-t <template>', 'Go template for custom formatting, e.g. \'{{.String}} {{.Time.Format "2006-01-02"}}\' (selects the template format)')
+  .option('--time <time>', 'Generate KSUIDs with this time, as an ISO 8601 date or Unix seconds')
+  .option('--from <time>', 'Generate KSUIDs with times spread evenly from this time to --to')
+  .option('--to <time>', 'End of the --from time window (default: now)')
+  .option('--bounds', 'Print the lowest and highest KSUIDs of the --time second or the --from/--to window')
+  .option('--sequence [seed]', 'Generate ordered KSUIDs from a Sequence, seeded with the given KSUID or a new one at --time (not with --from)')
+  .option('--epoch <seconds>', 'Epoch of the timestamps, in seconds since the Unix epoch (default: 1400000000)')
+  .option('--skip-invalid', 'Report invalid input on stderr and continue with the next KSUID, exiting with status 1 at the end')
+  .option('--strict', 'Stop at the first invalid input (default)')
+  .option('-v', 'Verbose mode', false)
+  .addHelpText('after', `
+KSUIDs are read from stdin, one per line, when "-" is given as an argument.
+
+The encoding of each KSUID is detected from its length and characters. 27 character
+KSUIDs are always read as base62, so base64url input needs --input-encoding base64url.`)
+  .enablePositionalOptions()
+  // KSUIDs are generated or parsed by main(), once the options are checked
+  .action(() => undefined);
+
+// Subcommand to run by main() instead of generating or parsing KSUIDs
+let subcommand: (() => Promise<void>) | null = null;
+
+const RAW_INPUT_HELP = 'Read raw 20 byte KSUIDs, as printed by -f raw, instead of base62 lines';
+
+program
+  .command('sort')
+  .description('Sort KSUIDs, spilling sorted runs to temporary files when they don\'t fit in the buffer')
+  .argument('[files...]', 'Files to read, or "-" for stdin (default)')
+  .option('-u, --unique', 'Print each KSUID once')
+  .option('--raw', `${RAW_INPUT_HELP}, and print them raw`)
+  .option('--buffer-size <count>', 'Number of KSUIDs sorted in memory at once', '1000000')
+  .action((files: string[], commandOptions) => {
+    subcommand = () => sortCommand(files, commandOptions);
+  });
+
+program
+  .command('uniq')
+  .description('Drop repeated KSUIDs following each other, as in sorted input')
+  .argument('[files...]', 'Files to read, or "-" for stdin (default)')
+  .option('--raw', `${RAW_INPUT_HELP}, and print them raw`)
+  .action((files: string[], commandOptions) => {
+    subcommand = () => uniqCommand(files, commandOptions);
+  });
+
+program
+  .command('diff')
+  .description('Compare two sorted lists of KSUIDs, printing "< id" for KSUIDs only in a and "> id" for KSUIDs only in b')
+  .argument('<a>', 'File to read, or "-" for stdin')
+  .argument('<b>', 'File to read, or "-" for stdin')
+  .option('--raw', RAW_INPUT_HELP)
+  .action((a: string, b: string, commandOptions) => {
+    subcommand = () => diffCommand(a, b, commandOptions);
+  });
+
+program
+  .command('check-sorted')
+  .description('Check that KSUIDs are in ascending order, reporting the first one that is not')
+  .argument('[files...]', 'Files to read one after the other, or "-" for stdin (default)')
+  .option('-u, --unique', 'Also fail on repeated KSUIDs')
+  .option('--raw', RAW_INPUT_HELP)
+  .action((files: string[], commandOptions) => {
+    subcommand = () => checkSortedCommand(files, commandOptions);
+  });
 
 program.parse(process.argv);
 
 const options = program.opts();
 const args = program.args;
 
+// Subcommands have their own options, and print base62 lines or raw KSUIDs
+const rootOptions = Object.keys(options)
+  .filter(name => program.getOptionValueSource(name) === 'cli')
+  .map(name => name.length === 1 ? `-${name}` : `--${name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}`);
+if (subcommand && rootOptions.length !== 0) {
+  console.error(`Option ${rootOptions.join(', ')} cannot be used with a subcommand`);
+  process.exit(1);
+}
+
+if (options.skipInvalid && options.strict) {
+  console.error('Options --skip-invalid and --strict cannot be used together');
+  process.exit(1);
+}
+
+/**
+ * Parse a time option, as an ISO 8601 date or Unix seconds
+ */
+function parseTime(value: string, option: string): Date {
+  const time = /^\d+(\.\d+)?$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  if (isNaN(time.getTime())) {
+    console.error(`Invalid ${option} "${value}": expected an ISO 8601 date or Unix seconds`);
+    process.exit(1);
+  }
+  return time;
+}
+
+const time = options.time !== undefined ? parseTime(options.time, '--time') : undefined;
+const from = options.from !== undefined ? parseTime(options.from, '--from') : undefined;
+const to = options.to !== undefined ? parseTime(options.to, '--to') : new Date();
+
+// Options only used to generate KSUIDs
+const generating = ['n', 'time', 'from', 'to', 'bounds', 'sequence']
+  .some(option => program.getOptionValueSource(option) === 'cli');
+
+if (generating && args.length !== 0) {
+  console.error('Options -n, --time, --from, --to, --bounds and --sequence cannot be used with KSUID arguments');
+  process.exit(1);
+}
+if (time && from) {
+  console.error('Options --time and --from cannot be used together');
+  process.exit(1);
+}
+if (options.to !== undefined && !from) {
+  console.error('Option --to requires --from');
+  process.exit(1);
+}
+if (options.bounds && !time && !from) {
+  console.error('Option --bounds requires --time or --from');
+  process.exit(1);
+}
+if (options.bounds && options.sequence !== undefined) {
+  console.error('Options --bounds and --sequence cannot be used together');
+  process.exit(1);
+}
+if (options.sequence !== undefined && from) {
+  console.error('Options --sequence and --from cannot be used together');
+  process.exit(1);
+}
+if (typeof options.sequence === 'string' && time) {
+  console.error('Option --time cannot be used with a --sequence seed, which has its own time');
+  process.exit(1);
+}
+
+// Only set up with a custom epoch, so the default path keeps batch generation
+let factory: KSUIDFactory | null = null;
+if (options.epoch !== undefined) {
+  try {
+    factory = new KSUIDFactory({ epoch: Number(options.epoch) });
+  } catch (error) {
+    console.error(`Invalid epoch "${options.epoch}": ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+const inputEncoding: Encoding | undefined = options.inputEncoding;
+if (inputEncoding !== undefined && !isEncoding(inputEncoding)) {
+  console.error(`Invalid input encoding: ${inputEncoding}`);
+  process.exit(1);
+}
+
+// Choose the output format, -t selecting the template format like the Go CLI
+const format = options.t !== undefined && program.getOptionValueSource('f') !== 'cli'
+  ? 'template'
+  : (options.f || 'string').toLowerCase();
+
+let template: KSUIDTemplate | null = null;
+if (format === 'template') {
+  if (options.t === undefined) {
+    console.error('Template string is required for template format');
+    process.exit(1);
+  }
+  try {
+    template = new KSUIDTemplate(options.t);
+  } catch (error) {
+    console.error(`Invalid template: ${(error as Error).message}`);
+    process.exit(1);
+  }
+} else if (options.t !== undefined) {
+  console.error(`Option -t cannot be used with the ${format} format`);
+  process.exit(1);
+}
+
+/**
+ * Fields of the records printed by the json and csv formats
+ */
+function record(id: KSUID): { string: string; raw: string; time: string; timestamp: number; payload: string } {
+  return {
+    string: id.toString(),
+    raw: bytesToHex(id.getBytes()),
+    time: id.getTime().toISOString(),
+    timestamp: id.getTimestamp(),
+    payload: bytesToHex(id.getPayload())
+  };
+}
+
+/**
+ * Formatter printing the KSUID in the given string encoding
+ */
+function encoded(encoding: Encoding): (id: KSUID) => void {
+  return (id: KSUID) => {
+    output(id.toString(encoding) + '\n');
+  };
+}
+
 // Format printing functions
 const formatters: Record<string, (id: KSUID) => void> = {
   string: (id: KSUID) => {
-    console.log(id.toString());
+    output(id.toString() + '\n');
   },
   
+  base62: encoded('base62'),
+  hex: encoded('hex'),
+  base32: encoded('base32'),
+  base64url: encoded('base64url'),
+  
   inspect: (id: KSUID) => {
     const inspectFormat = `
 REPRESENTATION:
@@ -59,77 +294,512 @@ COMPONENTS:
       .replace('%d', id.getTimestamp().toString())
       .replace('%s', bytesToHex(id.getPayload()));
     
-    console.log(formattedString);
+    output(formattedString + '\n');
   },
   
   time: (id: KSUID) => {
-    console.log(id.getTime().toISOString());
+    output(id.getTime().toISOString() + '\n');
   },
   
   timestamp: (id: KSUID) => {
-    console.log(id.getTimestamp());
+    output(id.getTimestamp() + '\n');
   },
   
   payload: (id: KSUID) => {
-    process.stdout.write(Buffer.from(id.getPayload()));
+    output(id.getPayload());
   },
   
   raw: (id: KSUID) => {
-    process.stdout.write(Buffer.from(id.getBytes()));
+    output(id.getBytes());
   },
   
   template: (id: KSUID) => {
-    if (!options.t) {
-      console.error('Template string is required for template format');
-      process.exit(1);
+    if (!template) {
+      throw new KSUIDError('Template string is required for template format');
     }
-    
-    // Very basic template implementation
-    let output = options.t
-      .replace(/{{.String}}/g, id.toString())
-      .replace(/{{.Raw}}/g, bytesToHex(id.getBytes()))
-      .replace(/{{.Time}}/g, id.getTime().toISOString())
-      .replace(/{{.Timestamp}}/g, id.getTimestamp().toString())
-      .replace(/{{.Payload}}/g, bytesToHex(id.getPayload()));
-    
-    console.log(output);
+    output(template.render(id) + '\n');
+  },
+
+  // One JSON object per line (NDJSON)
+  json: (id: KSUID) => {
+    output(JSON.stringify(record(id)) + '\n');
+  },
+
+  // None of the fields need quoting
+  csv: (id: KSUID) => {
+    output(Object.values(record(id)).join(',') + '\n');
   }
 };
 
-// Choose formatter based on -f option
-const format = (options.f || 'string').toLowerCase();
-const print = formatters[format] || formatters.string;
+// Header rows printed before the first KSUID
+const headers: Record<string, string> = {
+  csv: 'string,raw,time,timestamp,payload\n'
+};
 
-if (!print) {
+// Choose formatter based on the format
+const formatter = Object.prototype.hasOwnProperty.call(formatters, format) ? formatters[format] : null;
+
+if (!formatter) {
   console.error(`Invalid format: ${format}`);
   process.exit(1);
 }
+const print = formatter;
 
-// Generate or parse KSUIDs
-let ids: KSUID[] = [];
+/**
+ * Parse a KSUID given as an argument or input line, detecting its encoding unless --input-encoding is given
+ * Strings of no known encoding are read as base62, to report why they are invalid
+ */
+function parseID(text: string): KSUID {
+  const encoding = inputEncoding ?? detectEncoding(text) ?? 'base62';
+  return factory ? factory.parse(text, encoding) : KSUID.parse(text, encoding);
+}
 
-if (args.length === 0) {
-  // Generate new KSUIDs
+/**
+ * Print a KSUID with the chosen formatter
+ */
+function printID(id: KSUID): void {
+  if (options.v) {
+    output(`${id.toString()}: `);
+  }
+  print(id);
+}
+
+/**
+ * Report invalid input, stopping the CLI unless --skip-invalid is given
+ * Skipped input still makes the CLI exit with status 1 once the valid KSUIDs are printed
+ */
+function invalidInput(message: string): void {
+  if (!options.skipInvalid) {
+    flushOutput();
+    console.error(message);
+    process.exit(1);
+  }
+  console.error(message);
+  process.exitCode = 1;
+}
+
+/**
+ * Parse newline-delimited KSUIDs from stdin, printing each one as it is read
+ * Blank lines are ignored, invalid lines are reported with their line number
+ */
+async function parseStdin(): Promise<void> {
+  const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    const text = line.trim();
+    if (text === '') {
+      continue;
+    }
+
+    let id: KSUID;
+    try {
+      id = parseID(text);
+    } catch (error) {
+      invalidInput(`Error parsing line ${lineNumber} "${text}": ${(error as Error).message}`);
+      continue;
+    }
+
+    printID(id);
+    await drain();
+  }
+}
+
+/**
+ * Wait until stdout can take more output, so streamed output doesn't pile up in memory
+ */
+async function drain(): Promise<void> {
+  if (process.stdout.writableNeedDrain) {
+    await once(process.stdout, 'drain');
+  }
+}
+
+/**
+ * Create a KSUID with a random payload and the given time
+ */
+function randomAt(time: Date): KSUID {
+  return factory ? factory.randomWithTime(time) : KSUID.randomWithTime(time);
+}
+
+/**
+ * Generate and print the KSUIDs requested by -n and the time options
+ */
+function generate(): void {
   const count = parseInt(options.n, 10) || 1;
-  for (let i = 0; i < count; i++) {
-    ids.push(KSUID.new());
+
+  if (options.bounds) {
+    const start = from ?? time;
+    if (!start) {
+      throw new KSUIDError('Option --bounds requires --time or --from');
+    }
+    const end = from ? to : start;
+    if (factory) {
+      if (start.getTime() > end.getTime()) {
+        throw new KSUIDRangeError('Range start must not be after its end');
+      }
+      printID(factory.fromParts(start, new Uint8Array(PAYLOAD_BYTE_LENGTH)));
+      printID(factory.fromParts(end, new Uint8Array(PAYLOAD_BYTE_LENGTH).fill(0xFF)));
+    } else {
+      const { min, max } = KSUID.rangeFor(start, end);
+      printID(min);
+      printID(max);
+    }
+    return;
+  }
+
+  if (options.sequence !== undefined) {
+    const seed = typeof options.sequence === 'string' ? parseID(options.sequence) : randomAt(time || new Date());
+    // Use a counter wide enough for the requested count, 2 bytes at least like Sequence
+    const width = Math.max(2, Math.ceil(Math.log2(count) / 8));
+    const sequence = new Sequence({ seed, width });
+    for (let i = 0; i < count; i++) {
+      const id = sequence.next();
+      printID(factory ? factory.fromBytes(id.getBytes()) : id);
+    }
+    return;
+  }
+
+  if (from) {
+    if (from.getTime() > to.getTime()) {
+      throw new KSUIDRangeError('Range start must not be after its end');
+    }
+    const step = count > 1 ? (to.getTime() - from.getTime()) / (count - 1) : 0;
+    for (let i = 0; i < count; i++) {
+      printID(randomAt(new Date(from.getTime() + Math.round(step * i))));
+    }
+    return;
+  }
+
+  if (factory) {
+    for (let i = 0; i < count; i++) {
+      printID(factory.randomWithTime(time || new Date()));
+    }
+  } else {
+    // Generate new KSUIDs in a single batch
+    const bytes = KSUID.generate(count, { time });
+    if ((print === formatters.string || print === formatters.base62) && !options.v) {
+      printBase62Lines(bytes, count);
+    } else {
+      for (let i = 0; i < count; i++) {
+        printID(new KSUID(bytes.subarray(i * BYTE_LENGTH, (i + 1) * BYTE_LENGTH)));
+      }
+    }
   }
-} else {
-  // Parse provided KSUIDs
-  for (const arg of args) {
+}
+
+/**
+ * Print packed KSUIDs as base62 lines, encoding them straight from the packed bytes
+ */
+function printBase62Lines(bytes: Uint8Array, count: number): void {
+  const lineLength = STRING_ENCODED_LENGTH + 1;
+  const batch = Math.min(count, 4096);
+  const lines = new Uint8Array(batch * lineLength);
+
+  for (let start = 0; start < count; start += batch) {
+    const size = Math.min(batch, count - start);
+    for (let i = 0; i < size; i++) {
+      encodeInto(lines, i * lineLength, bytes, (start + i) * BYTE_LENGTH);
+      lines[i * lineLength + STRING_ENCODED_LENGTH] = 0x0A;
+    }
+    output(lines.subarray(0, size * lineLength));
+  }
+}
+
+/**
+ * A KSUID read by the subcommands
+ */
+interface InputKSUID {
+  bytes: Uint8Array;
+
+  /**
+   * Line number of the KSUID, or its position in raw input
+   */
+  line: number;
+}
+
+/**
+ * Read KSUIDs from a file or stdin ("-"), as base62 lines or raw 20 byte KSUIDs
+ * Blank lines are ignored, invalid lines stop the CLI with their line number
+ */
+async function* readKSUIDs(file: string, raw: boolean): AsyncGenerator<InputKSUID> {
+  const name = file === '-' ? 'stdin' : file;
+  const input = file === '-' ? process.stdin : fs.createReadStream(file);
+
+  if (raw) {
+    let pending = Buffer.alloc(0);
+    let line = 0;
+    for await (const chunk of input as AsyncIterable<Buffer>) {
+      const data = pending.length === 0 ? chunk : Buffer.concat([pending, chunk]);
+      const end = data.length - data.length % BYTE_LENGTH;
+      for (let offset = 0; offset < end; offset += BYTE_LENGTH) {
+        yield { bytes: data.subarray(offset, offset + BYTE_LENGTH), line: ++line };
+      }
+      pending = data.subarray(end);
+    }
+    if (pending.length !== 0) {
+      throw new KSUIDError(`${name} ends with a partial KSUID of ${pending.length} bytes`);
+    }
+    return;
+  }
+
+  let line = 0;
+  for await (const text of readline.createInterface({ input, crlfDelay: Infinity })) {
+    line++;
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      continue;
+    }
     try {
-      ids.push(KSUID.parse(arg));
+      yield { bytes: KSUID.parse(trimmed).getBytes(), line };
     } catch (error) {
-      console.error(`Error parsing "${arg}": ${(error as Error).message}`);
-      process.exit(1);
+      throw new KSUIDError(`Error parsing ${name} line ${line} "${trimmed}": ${(error as Error).message}`);
     }
   }
 }
 
-// Output the KSUIDs
-for (const id of ids) {
-  if (options.v) {
-    process.stdout.write(`${id.toString()}: `);
+/**
+ * Read KSUIDs from several files one after the other, stdin when none are given
+ */
+async function* readFiles(files: string[], raw: boolean): AsyncGenerator<InputKSUID> {
+  for (const file of files.length === 0 ? ['-'] : files) {
+    yield* readKSUIDs(file, raw);
   }
-  print(id);
-} 
\ No newline at end of file
+}
+
+/**
+ * Next KSUID of a reader, or null at the end of its input
+ */
+async function nextKSUID(reader: AsyncGenerator<InputKSUID>): Promise<InputKSUID | null> {
+  const result = await reader.next();
+  return result.done ? null : result.value;
+}
+
+/**
+ * Print the bytes of a KSUID as base62, or raw
+ */
+async function writeKSUID(bytes: Uint8Array, raw: boolean): Promise<void> {
+  output(raw ? bytes : new KSUID(bytes).toString() + '\n');
+  await drain();
+}
+
+/**
+ * Sort packed KSUIDs, returning a sorted copy
+ */
+function sortPacked(bytes: Uint8Array, count: number): Uint8Array {
+  const order = Array.from({ length: count }, (_, i) => i);
+  order.sort((x, y) => compareBytes(bytes, x * BYTE_LENGTH, bytes, y * BYTE_LENGTH));
+
+  const sorted = new Uint8Array(count * BYTE_LENGTH);
+  order.forEach((from, to) => {
+    sorted.set(bytes.subarray(from * BYTE_LENGTH, (from + 1) * BYTE_LENGTH), to * BYTE_LENGTH);
+  });
+  return sorted;
+}
+
+/**
+ * External merge sort: KSUIDs are sorted in batches of --buffer-size, and when the
+ * input doesn't fit in one batch, the sorted batches are written to temporary files
+ * which are merged while they are read back
+ */
+async function sortCommand(files: string[], commandOptions: { unique?: boolean; raw?: boolean; bufferSize: string }): Promise<void> {
+  const capacity = Number(commandOptions.bufferSize);
+  if (!Number.isSafeInteger(capacity) || capacity < 1) {
+    throw new KSUIDError(`Invalid buffer size: ${commandOptions.bufferSize}`);
+  }
+
+  const raw = commandOptions.raw || false;
+  let previous: Uint8Array | null = null;
+  const emit = async (bytes: Uint8Array) => {
+    if (!commandOptions.unique || !previous || compareBytes(previous, 0, bytes, 0) !== 0) {
+      previous = bytes;
+      await writeKSUID(bytes, raw);
+    }
+  };
+
+  const buffer = new Uint8Array(capacity * BYTE_LENGTH);
+  let count = 0;
+  const runs: string[] = [];
+  let directory: string | null = null;
+
+  const writeRun = async (sorted: Uint8Array) => {
+    directory = directory ?? fs.mkdtempSync(path.join(os.tmpdir(), 'ksuid-sort-'));
+    const run = path.join(directory, `run-${runs.length}`);
+    await fs.promises.writeFile(run, sorted);
+    runs.push(run);
+  };
+
+  try {
+    for await (const { bytes } of readFiles(files, raw)) {
+      buffer.set(bytes, count * BYTE_LENGTH);
+      count++;
+      if (count === capacity) {
+        await writeRun(sortPacked(buffer, count));
+        count = 0;
+      }
+    }
+
+    const sorted = sortPacked(buffer, count);
+    if (runs.length === 0) {
+      for (let i = 0; i < count; i++) {
+        await emit(sorted.subarray(i * BYTE_LENGTH, (i + 1) * BYTE_LENGTH));
+      }
+      return;
+    }
+
+    await writeRun(sorted);
+
+    // Merge the runs, taking the lowest of their next KSUIDs each time
+    const readers = runs.map(file => readKSUIDs(file, true));
+    const heads = await Promise.all(readers.map(nextKSUID));
+    for (;;) {
+      let lowest = -1;
+      let lowestHead: InputKSUID | null = null;
+      for (let i = 0; i < heads.length; i++) {
+        const head = heads[i];
+        if (head && (!lowestHead || compareBytes(head.bytes, 0, lowestHead.bytes, 0) < 0)) {
+          lowest = i;
+          lowestHead = head;
+        }
+      }
+      if (!lowestHead) {
+        break;
+      }
+      await emit(lowestHead.bytes);
+      heads[lowest] = await nextKSUID(readers[lowest]);
+    }
+  } finally {
+    if (directory) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+}
+
+async function uniqCommand(files: string[], commandOptions: { raw?: boolean }): Promise<void> {
+  const raw = commandOptions.raw || false;
+  let previous: Uint8Array | null = null;
+  for await (const { bytes } of readFiles(files, raw)) {
+    if (!previous || compareBytes(previous, 0, bytes, 0) !== 0) {
+      previous = bytes;
+      await writeKSUID(bytes, raw);
+    }
+  }
+}
+
+/**
+ * Walk both sorted inputs side by side, like comm(1)
+ * Exits with status 1 when they differ, like diff(1)
+ */
+async function diffCommand(a: string, b: string, commandOptions: { raw?: boolean }): Promise<void> {
+  if (a === '-' && b === '-') {
+    throw new KSUIDError('Only one of the inputs can be read from stdin');
+  }
+
+  const raw = commandOptions.raw || false;
+  const left = readSorted(a, raw);
+  const right = readSorted(b, raw);
+  let x = await nextKSUID(left);
+  let y = await nextKSUID(right);
+  let differences = 0;
+
+  while (x || y) {
+    const cmp = x && y ? compareBytes(x.bytes, 0, y.bytes, 0) : 0;
+    if (x && (!y || cmp < 0)) {
+      output(`< ${new KSUID(x.bytes).toString()}\n`);
+      x = await nextKSUID(left);
+    } else if (y && (!x || cmp > 0)) {
+      output(`> ${new KSUID(y.bytes).toString()}\n`);
+      y = await nextKSUID(right);
+    } else {
+      x = await nextKSUID(left);
+      y = await nextKSUID(right);
+      continue;
+    }
+    differences++;
+    await drain();
+  }
+
+  if (differences !== 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Read KSUIDs which must be in ascending order, for diff
+ */
+async function* readSorted(file: string, raw: boolean): AsyncGenerator<InputKSUID> {
+  let previous: Uint8Array | null = null;
+  for await (const id of readKSUIDs(file, raw)) {
+    if (previous && compareBytes(previous, 0, id.bytes, 0) > 0) {
+      throw new KSUIDError(`${file === '-' ? 'stdin' : file} is not sorted at ${raw ? 'KSUID' : 'line'} ${id.line}, sort it with "ksuid sort" first`);
+    }
+    previous = id.bytes;
+    yield id;
+  }
+}
+
+async function checkSortedCommand(files: string[], commandOptions: { unique?: boolean; raw?: boolean }): Promise<void> {
+  const raw = commandOptions.raw || false;
+  let previous: Uint8Array | null = null;
+
+  for (const file of files.length === 0 ? ['-'] : files) {
+    for await (const { bytes, line } of readKSUIDs(file, raw)) {
+      const cmp = previous ? compareBytes(previous, 0, bytes, 0) : -1;
+      if (cmp > 0 || (cmp === 0 && commandOptions.unique)) {
+        const where = `${file === '-' ? 'stdin' : file} ${raw ? 'KSUID' : 'line'} ${line}`;
+        const problem = cmp > 0 ? 'is lower than the KSUID before it' : 'repeats the KSUID before it';
+        throw new KSUIDError(`${where}: ${new KSUID(bytes).toString()} ${problem}`);
+      }
+      previous = bytes;
+    }
+  }
+}
+
+// Stop quietly when the reader of a pipe goes away, e.g. `ksuid - < ids.txt | head`
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code === 'EPIPE') {
+    process.exit(0);
+  }
+  throw error;
+});
+
+async function main(): Promise<void> {
+  if (subcommand) {
+    await subcommand();
+    flushOutput();
+    return;
+  }
+
+  if (headers[format]) {
+    output(headers[format]);
+  }
+
+  if (args.length === 0) {
+    generate();
+  } else {
+    // Parse provided KSUIDs, detecting their encoding, and read stdin for "-"
+    for (const arg of args) {
+      if (arg === '-') {
+        await parseStdin();
+        continue;
+      }
+
+      let id: KSUID;
+      try {
+        id = parseID(arg);
+      } catch (error) {
+        invalidInput(`Error parsing "${arg}": ${(error as Error).message}`);
+        continue;
+      }
+
+      printID(id);
+    }
+  }
+  flushOutput();
+}
+
+main().catch(error => {
+  flushOutput();
+  console.error((error as Error).message);
+  process.exit(1);
+});
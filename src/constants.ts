@@ -15,4 +15,7 @@ export const MAX_STRING_ENCODED = "aWgEPTl1tmebfsQzFP4bxwgy80V";  // A string-en
 export const BASE62_CHARACTERS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
 export const ZERO_STRING = "000000000000000000000000000";
 export const OFFSET_UPPERCASE = 10;
-export const OFFSET_LOWERCASE = 36; 
\ No newline at end of file
+export const OFFSET_LOWERCASE = 36; 
+// Millisecond-precision variant: the first 2 payload bytes hold the milliseconds (0-999),
+// followed by this 2 byte marker
+export const MILLISECOND_MARKER = 0x6D73;  // "ms" in ASCII
@@ -0,0 +1,87 @@
+import { KSUID } from './ksuid';
+import { ENCODINGS, decode, detectEncoding, encodedLength } from './encodings';
+
+describe('encodings', () => {
+  const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+
+  it('should encode in every format', () => {
+    expect(id.toString('base62')).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(id.toString('hex')).toBe('08581913f971348b516762380e521f2744dad62e');
+    expect(id.toString('base32')).toBe('11C1J4ZSE4T8PMB7C8W0WMGZ4X2DNNHE');
+    expect(id.toString('base64url')).toBe('CFgZE_lxNItRZ2I4DlIfJ0Ta1i4');
+
+    for (const encoding of ENCODINGS) {
+      expect(id.toString(encoding).length).toBe(encodedLength(encoding));
+    }
+  });
+
+  it('should round-trip every format', () => {
+    for (let i = 0; i < 50; i++) {
+      const random = KSUID.new();
+      for (const encoding of ENCODINGS) {
+        expect(KSUID.parse(random.toString(encoding), encoding).equals(random)).toBe(true);
+      }
+    }
+
+    for (const encoding of ENCODINGS) {
+      expect(KSUID.parse(KSUID.Max.toString(encoding), encoding).equals(KSUID.Max)).toBe(true);
+      expect(KSUID.parse(KSUID.Nil.toString(encoding), encoding).equals(KSUID.Nil)).toBe(true);
+    }
+  });
+
+  it('should keep the KSUID order in sortable encodings', () => {
+    const ids = Array.from({ length: 50 }, () => KSUID.new());
+    KSUID.sort(ids);
+
+    for (const encoding of ['hex', 'base32'] as const) {
+      const strings = ids.map(sorted => sorted.toString(encoding));
+      expect([...strings].sort()).toEqual(strings);
+    }
+  });
+
+  it('should decode case-insensitively where the format allows it', () => {
+    expect(KSUID.parse('08581913F971348B516762380E521F2744DAD62E', 'hex').equals(id)).toBe(true);
+    expect(KSUID.parse('11c1j4zse4t8pmb7c8w0wmgz4x2dnnhe', 'base32').equals(id)).toBe(true);
+    // Crockford aliases: I and L read as 1, O read as 0
+    expect(KSUID.parse('IlC1J4ZSE4T8PMB7C8WOWMGZ4X2DNNHE', 'base32').equals(id)).toBe(true);
+  });
+
+  it('should report invalid input', () => {
+    expect(KSUID.tryParse('08581913f971348b', 'hex')).toEqual({ ok: false, reason: 'length', index: 16 });
+    expect(KSUID.tryParse('08581913f971348b516762380e521f2744dad62g', 'hex')).toEqual({ ok: false, reason: 'character', index: 39 });
+    expect(KSUID.tryParse('11C1J4ZSE4T8PMB7C8W0WMGZ4X2DNNHU', 'base32')).toEqual({ ok: false, reason: 'character', index: 31 });
+    // Padding bits of the last base64url character must be zero
+    expect(KSUID.tryParse('CFgZE_lxNItRZ2I4DlIfJ0Ta1i5', 'base64url')).toEqual({ ok: false, reason: 'character', index: 26 });
+    expect(() => KSUID.parse('CFgZE_lxNItRZ2I4DlIfJ0Ta1i+', 'base64url')).toThrowError('Invalid base64url character "+" at position 26');
+  });
+
+  it('should detect the encoding of a string', () => {
+    for (const encoding of ['base62', 'hex', 'base32'] as const) {
+      expect(detectEncoding(id.toString(encoding))).toBe(encoding);
+    }
+    expect(detectEncoding('not a ksuid')).toBeNull();
+  });
+
+  it('should read 27 character strings as base62', () => {
+    // Valid in both encodings, as different KSUIDs
+    const base64url = KSUID.parse('3KuuAsBIBz3b1TgANlZ2mhQnbLx').toString('base64url');
+    expect(base64url).toBe('F2PZMXkYsKrZ2WIVnXJ5EiEyJp0');
+    expect(detectEncoding(base64url)).toBe('base62');
+
+    // Above the maximum KSUID, so only valid base64url
+    expect(detectEncoding('zzzzzzzzzzzzzzzzzzzzzzzzzzA')).toBe('base62');
+
+    // Only valid base64url, which is never detected
+    expect(detectEncoding(id.toString('base64url'))).toBeNull();
+    // Non-ASCII characters are not read as the ASCII code of their low byte
+    expect(detectEncoding('1BoZGMuixPtHRHwvkZxHEkfLxL\u0134')).toBeNull();
+  });
+
+  it('should report where base62 decoding fails', () => {
+    const dst = new Uint8Array(20);
+    expect(decode('zzzzzzzzzzzzzzzzzzzzzzzzzzA', 'base62', dst)).toBe(0);
+    expect(decode('aWgEPTl1tmebfsQzFP4bxwgy80W', 'base62', dst)).toBe(26);
+    expect(decode('1BoZGMuixPtHRHwvkZxHEkfLxL\u0134', 'base62', dst)).toBe(26);
+    expect(decode('1BoZGMuixPtHRHwvkZxHEkfLxL4', 'base62', dst)).toBe(-1);
+  });
+});
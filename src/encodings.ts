@@ -0,0 +1,237 @@
+import { BYTE_LENGTH, STRING_ENCODED_LENGTH } from './constants';
+import { encodeBase62, fastDecodeBase62, invalidBase62Index, overflowBase62Index } from './base62';
+
+/**
+ * String encodings supported for KSUIDs
+ * - `base62`: the standard 27 character encoding
+ * - `hex`: 40 lowercase hex characters
+ * - `base32`: 32 character Crockford base32 (case-insensitive)
+ * - `base64url`: 27 character unpadded base64url
+ *
+ * All encodings except base64url sort in the same order as the KSUID bytes.
+ */
+export type Encoding = 'base62' | 'hex' | 'base32' | 'base64url';
+
+/**
+ * A fixed-length string codec for KSUID bytes
+ */
+interface Codec {
+  /**
+   * Length of encoded strings
+   */
+  length: number;
+
+  /**
+   * Encode BYTE_LENGTH bytes
+   */
+  encode(bytes: Uint8Array): string;
+
+  /**
+   * Decode a string of `length` characters into dst
+   * Returns -1 on success, or the index of the first invalid character
+   */
+  decode(str: string, dst: Uint8Array): number;
+}
+
+const HEX_CHARACTERS = '0123456789abcdef';
+const BASE32_CHARACTERS = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const BASE64URL_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Converts a hex character into its value, or -1
+ */
+function hexValue(charCode: number): number {
+  if (charCode >= 48 && charCode <= 57) { // 0-9
+    return charCode - 48;
+  } else if (charCode >= 97 && charCode <= 102) { // a-f
+    return charCode - 87;
+  } else if (charCode >= 65 && charCode <= 70) { // A-F
+    return charCode - 55;
+  }
+  return -1;
+}
+
+/**
+ * Converts a Crockford base32 character into its value, or -1
+ * Decoding is case-insensitive, and I/L and O are read as 1 and 0
+ */
+function base32Value(char: string): number {
+  const upper = char.toUpperCase();
+  if (upper === 'I' || upper === 'L') {
+    return 1;
+  } else if (upper === 'O') {
+    return 0;
+  }
+  return BASE32_CHARACTERS.indexOf(upper);
+}
+
+/**
+ * Decode hex characters into dst
+ * Returns -1 on success, or the index of the first invalid character
+ */
+function decodeHex(str: string, dst: Uint8Array): number {
+  for (let i = 0; i < BYTE_LENGTH; i++) {
+    const high = hexValue(str.charCodeAt(2 * i));
+    if (high < 0) {
+      return 2 * i;
+    }
+    const low = hexValue(str.charCodeAt(2 * i + 1));
+    if (low < 0) {
+      return 2 * i + 1;
+    }
+    dst[i] = (high << 4) | low;
+  }
+  return -1;
+}
+
+/**
+ * Encode bytes to hex
+ */
+function encodeHex(bytes: Uint8Array): string {
+  let str = '';
+  for (let i = 0; i < bytes.length; i++) {
+    str += HEX_CHARACTERS[bytes[i] >> 4] + HEX_CHARACTERS[bytes[i] & 0x0F];
+  }
+  return str;
+}
+
+/**
+ * Encode bytes as a stream of `bits`-bit digits of the given alphabet, most significant first
+ * The last digit is padded with zero bits
+ */
+function encodeBits(bytes: Uint8Array, bits: number, alphabet: string): string {
+  const mask = (1 << bits) - 1;
+  let str = '';
+  let buffer = 0;
+  let size = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    buffer = ((buffer << 8) | bytes[i]) & 0xFFFF;
+    size += 8;
+    while (size >= bits) {
+      size -= bits;
+      str += alphabet[(buffer >> size) & mask];
+    }
+  }
+
+  if (size > 0) {
+    str += alphabet[(buffer << (bits - size)) & mask];
+  }
+
+  return str;
+}
+
+/**
+ * Decode a stream of `bits`-bit digits into dst, most significant first
+ * Padding bits of the last digit must be zero
+ * Returns -1 on success, or the index of the first invalid character
+ */
+function decodeBits(str: string, bits: number, value: (char: string) => number, dst: Uint8Array): number {
+  let buffer = 0;
+  let size = 0;
+  let n = 0;
+
+  for (let i = 0; i < str.length; i++) {
+    const digit = value(str[i]);
+    if (digit < 0) {
+      return i;
+    }
+    buffer = ((buffer << bits) | digit) & 0xFFFF;
+    size += bits;
+    if (size >= 8) {
+      size -= 8;
+      dst[n++] = (buffer >> size) & 0xFF;
+    }
+  }
+
+  // Leftover bits are padding and must be zero
+  if ((buffer & ((1 << size) - 1)) !== 0) {
+    return str.length - 1;
+  }
+
+  return -1;
+}
+
+const codecs: Record<Encoding, Codec> = {
+  base62: {
+    length: STRING_ENCODED_LENGTH,
+    encode: encodeBase62,
+    decode(str: string, dst: Uint8Array): number {
+      // Rejects non-ASCII characters, which would otherwise alias ASCII codes once truncated to bytes
+      const invalid = invalidBase62Index(str);
+      if (invalid >= 0) {
+        return invalid;
+      }
+      const bytes = Uint8Array.from(str, char => char.charCodeAt(0));
+      return fastDecodeBase62(dst, bytes) ? -1 : overflowBase62Index(str);
+    }
+  },
+
+  hex: {
+    length: 2 * BYTE_LENGTH,
+    encode: encodeHex,
+    decode: decodeHex
+  },
+
+  base32: {
+    length: Math.ceil(BYTE_LENGTH * 8 / 5),
+    encode: (bytes: Uint8Array) => encodeBits(bytes, 5, BASE32_CHARACTERS),
+    decode: (str: string, dst: Uint8Array) => decodeBits(str, 5, base32Value, dst)
+  },
+
+  base64url: {
+    length: Math.ceil(BYTE_LENGTH * 8 / 6),
+    encode: (bytes: Uint8Array) => encodeBits(bytes, 6, BASE64URL_CHARACTERS),
+    decode: (str: string, dst: Uint8Array) => decodeBits(str, 6, (char: string) => BASE64URL_CHARACTERS.indexOf(char), dst)
+  }
+};
+
+/**
+ * Names of all supported encodings
+ */
+export const ENCODINGS = Object.keys(codecs) as Encoding[];
+
+/**
+ * Check if a value is a supported encoding name
+ */
+export function isEncoding(value: string): value is Encoding {
+  return Object.prototype.hasOwnProperty.call(codecs, value);
+}
+
+/**
+ * Length of strings in the given encoding
+ */
+export function encodedLength(encoding: Encoding): number {
+  return codecs[encoding].length;
+}
+
+/**
+ * Encode KSUID bytes in the given encoding
+ */
+export function encode(bytes: Uint8Array, encoding: Encoding): string {
+  return codecs[encoding].encode(bytes);
+}
+
+/**
+ * Decode a string of `encodedLength(encoding)` characters into dst
+ * Returns -1 on success, or the index of the first invalid character
+ */
+export function decode(str: string, encoding: Encoding, dst: Uint8Array): number {
+  return codecs[encoding].decode(str, dst);
+}
+
+/**
+ * Guess the encoding of a string from its length and characters
+ * 27 character strings made of base62 characters are base62, even when they exceed the maximum KSUID,
+ * and base64url is never detected since most base62 strings are also valid base64url
+ * Returns null when no encoding matches
+ */
+export function detectEncoding(str: string): Encoding | null {
+  if (str.length === STRING_ENCODED_LENGTH) {
+    return invalidBase62Index(str) < 0 ? 'base62' : null;
+  }
+  const dst = new Uint8Array(BYTE_LENGTH);
+  const match = ENCODINGS.find(encoding =>
+    encoding !== 'base64url' && str.length === codecs[encoding].length && codecs[encoding].decode(str, dst) < 0);
+  return match ?? null;
+}
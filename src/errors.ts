@@ -0,0 +1,42 @@
+/**
+ * Base class of all errors thrown by this library
+ */
+export class KSUIDError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KSUIDError';
+  }
+}
+
+/**
+ * Thrown when a value falls outside of what a KSUID can represent,
+ * e.g. a time before the KSUID epoch or an exhausted sequence
+ */
+export class KSUIDRangeError extends KSUIDError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KSUIDRangeError';
+  }
+}
+
+/**
+ * Thrown when a string cannot be parsed as a KSUID
+ */
+export class KSUIDParseError extends KSUIDError {
+  /**
+   * The string that failed to parse
+   */
+  public readonly input: string;
+
+  /**
+   * Index of the offending character in the input
+   */
+  public readonly position: number;
+
+  constructor(message: string, input: string, position: number) {
+    super(message);
+    this.name = 'KSUIDParseError';
+    this.input = input;
+    this.position = position;
+  }
+}
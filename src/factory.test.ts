@@ -0,0 +1,72 @@
+import { KSUID } from './ksuid';
+import { KSUIDFactory } from './factory';
+import { EPOCH_STAMP } from './constants';
+import { KSUIDRangeError } from './errors';
+
+describe('KSUIDFactory', () => {
+  // 2100-01-01T00:00:00Z
+  const epoch = 4102444800;
+  const factory = new KSUIDFactory({ epoch });
+
+  it('should default to the standard epoch', () => {
+    const standard = new KSUIDFactory();
+    const time = new Date('2024-03-01T12:34:56Z');
+
+    expect(standard.epoch).toBe(EPOCH_STAMP);
+    expect(standard.randomWithTime(time).getTimestamp()).toBe(KSUID.randomWithTime(time).getTimestamp());
+    expect(standard.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4').getTime()).toEqual(KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4').getTime());
+  });
+
+  it('should encode times relative to its epoch', () => {
+    const time = new Date('2200-06-15T08:00:00Z');
+    const id = factory.randomWithTime(time);
+
+    expect(id.getTimestamp()).toBe(time.getTime() / 1000 - epoch);
+    expect(id.getTime()).toEqual(time);
+    expect(factory.getTime(id)).toEqual(time);
+
+    const payload = new Uint8Array(16).fill(0xAB);
+    const fromParts = factory.fromParts(time, payload);
+    expect(fromParts.getTime()).toEqual(time);
+    expect(fromParts.getPayload()).toEqual(payload);
+  });
+
+  it('should read existing KSUIDs relative to its epoch', () => {
+    const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    const expected = new Date((id.getTimestamp() + epoch) * 1000);
+
+    expect(factory.getTime(id)).toEqual(expected);
+    expect(factory.parse(id.toString()).getTime()).toEqual(expected);
+    expect(factory.parse(id.toString('hex'), 'hex').getTime()).toEqual(expected);
+    expect(factory.fromBytes(id.getBytes()).equals(id)).toBe(true);
+  });
+
+  it('should keep its epoch in derived KSUIDs', () => {
+    const time = new Date('2200-06-15T08:00:00Z');
+    const id = factory.fromParts(time, new Uint8Array(16));
+
+    expect(id.next().getTime()).toEqual(time);
+    expect(id.next().prev().getTime()).toEqual(time);
+    expect(id.add(5).getTime()).toEqual(time);
+    expect(id.add(5).subtract(5).equals(id)).toBe(true);
+    // Wraps into the previous second
+    expect(id.prev().getTime()).toEqual(new Date(time.getTime() - 1000));
+  });
+
+  it('should keep the bytes and encodings of standard KSUIDs', () => {
+    const id = new KSUIDFactory({ epoch: 0 }).new();
+    const parsed = KSUID.parse(id.toString());
+
+    expect(parsed.equals(id)).toBe(true);
+    expect(parsed.getTimestamp()).toBe(id.getTimestamp());
+    expect(id).toBeInstanceOf(KSUID);
+  });
+
+  it('should validate times and epochs', () => {
+    expect(() => factory.randomWithTime(new Date('2024-01-01T00:00:00Z')))
+      .toThrowError('Valid KSUID times are between 2100-01-01T00:00:00.000Z and 2236-02-08T06:28:15.000Z');
+    expect(() => new KSUIDFactory({ epoch: 1.5 })).toThrowError(KSUIDRangeError);
+    expect(() => new KSUIDFactory({ epoch: new Date(NaN) })).toThrowError('Epoch must be a whole number of seconds');
+    expect(new KSUIDFactory({ epoch: new Date('2100-01-01T00:00:00Z') }).epoch).toBe(epoch);
+  });
+});
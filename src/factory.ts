@@ -0,0 +1,121 @@
+import { BYTE_LENGTH, EPOCH_STAMP, PAYLOAD_BYTE_LENGTH, TIMESTAMP_BYTE_LENGTH } from './constants';
+import { KSUID } from './ksuid';
+import { RandomSource, getRandomBytes } from './random';
+import { KSUIDError, KSUIDRangeError } from './errors';
+import { Encoding } from './encodings';
+
+/**
+ * KSUID whose timestamp is relative to a custom epoch
+ * KSUIDs derived from it keep the epoch
+ */
+class EpochKSUID extends KSUID {
+  constructor(bytes: Uint8Array, private readonly epoch: number) {
+    super(bytes);
+  }
+
+  public getTime(): Date {
+    return new Date((this.getTimestamp() + this.epoch) * 1000);
+  }
+
+  public next(): KSUID {
+    return this.withEpoch(super.next());
+  }
+
+  public prev(): KSUID {
+    return this.withEpoch(super.prev());
+  }
+
+  public add(n: bigint | number): KSUID {
+    return this.withEpoch(super.add(n));
+  }
+
+  public subtract(n: bigint | number): KSUID {
+    return this.withEpoch(super.subtract(n));
+  }
+
+  private withEpoch(id: KSUID): KSUID {
+    return new EpochKSUID(id.getBytes(), this.epoch);
+  }
+}
+
+/**
+ * KSUIDFactory creates KSUIDs with timestamps relative to a custom epoch,
+ * e.g. to extend the range of IDs past 2150 or to interoperate with
+ * implementations using a different epoch.
+ *
+ * KSUIDs created or parsed by a factory report their time relative to its epoch.
+ * The bytes and string encodings are the same as standard KSUIDs, so the epoch
+ * is not recorded in the ID and must be known by every reader.
+ */
+export class KSUIDFactory {
+  /**
+   * Epoch of the timestamps, in seconds since the Unix epoch
+   */
+  public readonly epoch: number;
+
+  constructor(options: { epoch?: number | Date } = {}) {
+    const epoch = options.epoch instanceof Date ? options.epoch.getTime() / 1000 : options.epoch;
+    if (epoch !== undefined && !Number.isSafeInteger(epoch)) {
+      throw new KSUIDRangeError('Epoch must be a whole number of seconds');
+    }
+    this.epoch = epoch === undefined ? EPOCH_STAMP : epoch;
+  }
+
+  /**
+   * Create a new KSUID with current timestamp and random payload
+   */
+  public new(options: { random?: RandomSource } = {}): KSUID {
+    return this.randomWithTime(new Date(), options);
+  }
+
+  /**
+   * Create a new KSUID with a specific timestamp and random payload
+   */
+  public randomWithTime(time: Date, options: { random?: RandomSource } = {}): KSUID {
+    return this.fromParts(time, getRandomBytes(PAYLOAD_BYTE_LENGTH, options.random));
+  }
+
+  /**
+   * Create a KSUID from parts (timestamp and payload)
+   */
+  public fromParts(time: Date, payload: Uint8Array): KSUID {
+    if (payload.length !== PAYLOAD_BYTE_LENGTH) {
+      throw new KSUIDError(`Valid KSUID payloads are ${PAYLOAD_BYTE_LENGTH} bytes`);
+    }
+
+    const timestamp = Math.floor(time.getTime() / 1000) - this.epoch;
+    if (!(timestamp >= 0 && timestamp <= 0xFFFFFFFF)) {
+      throw new KSUIDRangeError(
+        `Valid KSUID times are between ${new Date(this.epoch * 1000).toISOString()} ` +
+        `and ${new Date((this.epoch + 0xFFFFFFFF) * 1000).toISOString()}`
+      );
+    }
+
+    const bytes = new Uint8Array(BYTE_LENGTH);
+    new DataView(bytes.buffer).setUint32(0, timestamp);
+    bytes.set(payload, TIMESTAMP_BYTE_LENGTH);
+
+    return new EpochKSUID(bytes, this.epoch);
+  }
+
+  /**
+   * Create a KSUID from a byte array
+   */
+  public fromBytes(bytes: Uint8Array): KSUID {
+    return new EpochKSUID(bytes, this.epoch);
+  }
+
+  /**
+   * Parse a string-encoded KSUID, base62 unless another encoding is given
+   */
+  public parse(str: string, encoding: Encoding = 'base62'): KSUID {
+    return this.fromBytes(KSUID.parse(str, encoding).getBytes());
+  }
+
+  /**
+   * Get the time of any KSUID relative to the epoch of this factory
+   */
+  public getTime(id: KSUID): Date {
+    return new Date((id.getTimestamp() + this.epoch) * 1000);
+  }
+}
@@ -12,11 +12,130 @@ export const TIMESTAMP_BYTE_LENGTH: number;
 export const PAYLOAD_BYTE_LENGTH: number;
 export const BYTE_LENGTH: number;
 export const STRING_ENCODED_LENGTH: number;
+export const MILLISECOND_MARKER: number;
 
 // Utility functions
 export function encodeBase62(bytes: Uint8Array): string;
 export function decodeBase62(str: string): Uint8Array;
 
+/**
+ * Encodes the 20 bytes of src starting at srcOffset as 27 ASCII base62 characters,
+ * written into dst starting at dstOffset. Does not allocate.
+ */
+export function encodeInto(dst: Uint8Array, dstOffset: number, src: Uint8Array, srcOffset?: number): void;
+
+/**
+ * Decodes the 27 ASCII base62 characters of src starting at srcOffset into 20 bytes,
+ * written into dst starting at dstOffset. Does not allocate.
+ * Returns false, leaving dst untouched, if src is not a valid base62 KSUID
+ */
+export function decodeInto(dst: Uint8Array, dstOffset: number, src: Uint8Array, srcOffset?: number): boolean;
+
+/**
+ * String encodings supported for KSUIDs
+ * - `base62`: the standard 27 character encoding
+ * - `hex`: 40 lowercase hex characters
+ * - `base32`: 32 character Crockford base32 (case-insensitive)
+ * - `base64url`: 27 character unpadded base64url
+ */
+export type Encoding = 'base62' | 'hex' | 'base32' | 'base64url';
+
+/**
+ * Names of all supported encodings
+ */
+export const ENCODINGS: Encoding[];
+
+/**
+ * Guess the encoding of a string from its length and characters
+ * 27 character strings made of base62 characters are base62, even when they exceed the maximum KSUID,
+ * and base64url is never detected since most base62 strings are also valid base64url
+ * Returns null when no encoding matches
+ */
+export function detectEncoding(str: string): Encoding | null;
+
+/**
+ * Base class of all errors thrown by this library
+ */
+export class KSUIDError extends Error {
+  constructor(message: string);
+}
+
+/**
+ * Thrown when a value falls outside of what a KSUID can represent,
+ * e.g. a time before the KSUID epoch or an exhausted sequence
+ */
+export class KSUIDRangeError extends KSUIDError {
+  constructor(message: string);
+}
+
+/**
+ * Thrown when a string cannot be parsed as a KSUID
+ */
+export class KSUIDParseError extends KSUIDError {
+  /**
+   * The string that failed to parse
+   */
+  readonly input: string;
+  
+  /**
+   * Index of the offending character in the input
+   */
+  readonly position: number;
+  
+  constructor(message: string, input: string, position: number);
+}
+
+/**
+ * A source of random bytes used to generate KSUID payloads
+ */
+export interface RandomSource {
+  /**
+   * Return `length` random bytes
+   */
+  randomBytes(length: number): Uint8Array;
+}
+
+/**
+ * Random source backed by the platform's cryptographically secure generator
+ */
+export const cryptoRandomSource: RandomSource;
+
+/**
+ * Deterministic random source producing the same bytes for the same seed
+ * Useful for reproducible test fixtures, NOT suitable for production IDs
+ */
+export class SeededRandomSource implements RandomSource {
+  constructor(seed: number);
+  randomBytes(length: number): Uint8Array;
+}
+
+/**
+ * Set the random source used when none is passed explicitly
+ * Passing nothing restores the default cryptographically secure source
+ */
+export function setRandomSource(source?: RandomSource): void;
+
+/**
+ * Get the random source used when none is passed explicitly
+ */
+export function getRandomSource(): RandomSource;
+
+/**
+ * Why a string could not be parsed as a KSUID
+ * - `length`: the string is not as long as its encoding requires, e.g. 27 characters for base62
+ * - `character`: the string contains a character that is not valid in its encoding
+ * - `overflow`: the base62 string encodes a value above the maximum KSUID
+ */
+export type ParseFailureReason = 'length' | 'character' | 'overflow';
+
+/**
+ * Result of `KSUID.tryParse`
+ * On failure, `index` is the position of the offending character
+ */
+export type ParseResult =
+  | { ok: true, value: KSUID }
+  | { ok: false, reason: ParseFailureReason, index: number };
+
 /**
  * KSUID class - Represents a K-Sortable Unique IDentifier
  * KSUIDs are 20 bytes:
@@ -40,7 +159,7 @@ export class KSUID {
   getTime(): Date;
   
   /**
-   * Get the timestamp portion of the ID as an integer (seconds since KSUID epoch)
+   * Get the timestamp portion of the ID as an unsigned integer (seconds since KSUID epoch)
    */
   getTimestamp(): number;
   
@@ -51,8 +170,27 @@ export class KSUID {
   
   /**
    * String-encoded representation (27 character base62 encoded string)
+   * unless another encoding is given
    */
-  toString(): string;
+  toString(encoding?: Encoding): string;
+  
+  /**
+   * JSON representation, the base62 string
+   */
+  toJSON(): string;
+  
+  /**
+   * Primitive value, the base62 string
+   * Base62 strings sort like the KSUIDs, so `<` and `>` compare KSUIDs correctly
+   */
+  valueOf(): string;
+  
+  /**
+   * Convert to the base62 string in template strings, concatenations and comparisons
+   * `<` and `>` ask for a number, so the `number` hint gets the base62 string too,
+   * which makes arithmetic like `+id` NaN rather than a misleading number
+   */
+  [Symbol.toPrimitive](hint: 'string' | 'number' | 'default'): string;
   
   /**
    * Check if this is a "nil" KSUID (all zeros)
@@ -60,15 +198,20 @@ export class KSUID {
   isNil(): boolean;
   
   /**
-   * Compare this KSUID with another one
+   * Compare this KSUID with another one, or with a KSUIDView, without allocating
    * @returns Negative if this < other, zero if equal, positive if this > other
    */
-  compare(other: KSUID): number;
+  compare(other: KSUID | KSUIDView): number;
+  
+  /**
+   * Check if this KSUID equals another one, or a KSUIDView
+   */
+  equals(other: KSUID | KSUIDView): boolean;
   
   /**
-   * Check if this KSUID equals another one
+   * Copy the 20 bytes of the KSUID into buffer at the given offset
    */
-  equals(other: KSUID): boolean;
+  writeTo(buffer: Uint8Array, offset?: number): void;
   
   /**
    * Get the next KSUID after this one
@@ -80,32 +223,127 @@ export class KSUID {
    */
   prev(): KSUID;
   
+  /**
+   * The KSUID as an unsigned 160-bit integer, timestamp in the most significant bits
+   */
+  toBigInt(): bigint;
+  
+  /**
+   * The KSUID `n` positions after this one in the 160-bit ID space
+   * A negative `n` moves backwards. Throws a KSUIDRangeError past Nil or Max.
+   */
+  add(n: bigint | number): KSUID;
+  
+  /**
+   * The KSUID `n` positions before this one in the 160-bit ID space
+   * Throws a KSUIDRangeError past Nil or Max.
+   */
+  subtract(n: bigint | number): KSUID;
+  
+  /**
+   * Number of positions from this KSUID to another in the 160-bit ID space,
+   * negative when the other KSUID is lower, so `a.add(a.distance(b))` equals `b`
+   */
+  distance(other: KSUID): bigint;
+  
   // Static factory methods
   
   /**
    * Create a new KSUID with current timestamp and random payload
+   * The payload is read from `options.random`, or the global random source
    */
-  static new(): KSUID;
+  static new(options?: { random?: RandomSource }): KSUID;
   
   /**
    * Create a new KSUID with a specific timestamp and random payload
+   * @throws KSUIDRangeError if the time is outside of the KSUID timestamp range
+   */
+  static randomWithTime(time: Date, options?: { random?: RandomSource }): KSUID;
+  
+  /**
+   * Generate `count` KSUIDs at once, packed back to back in a single byte array
+   * of `count * BYTE_LENGTH` bytes, drawing randomness in one batch
    */
-  static randomWithTime(time: Date): KSUID;
+  static generate(count: number, options?: { time?: Date, random?: RandomSource }): Uint8Array;
+  
+  /**
+   * Lazily generate KSUIDs with the current timestamp, as a sync or async iterable
+   * The stream is infinite unless `count` is given
+   * Throws a KSUIDRangeError if `count` is not a non-negative integer or `batchSize` a positive one
+   */
+  static stream(options?: { count?: number, batchSize?: number, random?: RandomSource }): Iterable<KSUID> & AsyncIterable<KSUID>;
   
   /**
    * Create a KSUID from timestamp and payload
    */
   static fromParts(time: Date, payload: Uint8Array): KSUID;
   
+  /**
+   * Create a KSUID from an unsigned 160-bit integer
+   * Throws a KSUIDRangeError if the value is negative or above the maximum KSUID
+   */
+  static fromBigInt(value: bigint): KSUID;
+  
   /**
    * Create a KSUID from a byte array
    */
   static fromBytes(bytes: Uint8Array): KSUID;
   
+  /**
+   * Get the lowest KSUID with the timestamp of the given time
+   * Times outside of the KSUID timestamp range are clamped to it
+   */
+  static minForTime(time: Date): KSUID;
+  
+  /**
+   * Get the highest KSUID with the timestamp of the given time
+   * Times outside of the KSUID timestamp range are clamped to it
+   */
+  static maxForTime(time: Date): KSUID;
+  
+  /**
+   * Returns the inclusive min and max bounds of the KSUIDs created between start and end
+   */
+  static rangeFor(start: Date, end: Date): { min: KSUID, max: KSUID };
+  
+  /**
+   * Same as `rangeFor` with string-encoded bounds, e.g. for SQL `BETWEEN` clauses
+   */
+  static stringRangeFor(start: Date, end: Date): { min: string, max: string };
+  
   /**
    * Parse a string-encoded KSUID
+   * Base62 unless another encoding is given
+   * @throws KSUIDParseError if the string is not a valid KSUID
+   */
+  static parse(str: string, encoding?: Encoding): KSUID;
+  
+  /**
+   * Parse a string-encoded KSUID without throwing
+   * Base62 unless another encoding is given
+   * Returns the KSUID, or why and where parsing failed
+   */
+  static tryParse(str: string, encoding?: Encoding): ParseResult;
+  
+  /**
+   * Check if a string is a valid string-encoded KSUID, without decoding it
+   */
+  static isValid(str: string): boolean;
+  
+  /**
+   * Reviver for `JSON.parse` turning the strings under the given keys, or the keys matching
+   * a predicate, into KSUIDs, e.g. `JSON.parse(text, KSUID.reviver(['id', 'parentIds']))`
+   * Arrays under those keys have their strings converted, other values are kept as they are
+   * @throws KSUIDParseError for strings under those keys that are not valid KSUIDs
+   */
+  static reviver(keys: readonly string[] | ((key: string) => boolean)): (this: unknown, key: string, value: unknown) => unknown;
+  
+  /**
+   * Recreate a KSUID from its structured clone, e.g. a KSUID sent with `postMessage`
+   * Structured cloning keeps the bytes of a KSUID but not its class
+   * @throws KSUIDError if the value is not a cloned KSUID
    */
-  static parse(str: string): KSUID;
+  static fromClone(value: unknown): KSUID;
   
   /**
    * Parse a string-encoded KSUID, returns Nil on error
@@ -122,6 +360,19 @@ export class KSUID {
    */
   static isSorted(ids: KSUID[]): boolean;
   
+  /**
+   * Split the inclusive range from min to max into n contiguous inclusive ranges
+   * Range sizes differ by at most one, the larger ranges come first
+   */
+  static split(min: KSUID, max: KSUID, n: number): { min: KSUID, max: KSUID }[];
+  
+  /**
+   * Shard of a KSUID between 0 and n - 1, from a hash of its payload
+   * Hashing spreads payloads that are not random, e.g. with a fixed prefix,
+   * and the shard never changes for a given ID and n
+   */
+  static shardOf(id: KSUID, n: number): number;
+  
   // Static instances
   
   /**
@@ -135,9 +386,19 @@ export class KSUID {
   static readonly Max: KSUID;
 }
 
+/**
+ * Serializable state of a Sequence, as returned by `toJSON()`
+ */
+export interface SequenceState {
+  seed: string;
+  count: string;
+  width: number;
+  autoReseed: boolean;
+}
+
 /**
  * Sequence class - generates a sequence of ordered KSUIDs from a seed
- * Up to 65536 KSUIDs can be generated from a single seed
+ * Up to 256^width KSUIDs can be generated from a single seed (65536 by default)
  */
 export class Sequence {
   /**
@@ -146,9 +407,20 @@ export class Sequence {
   seed: KSUID;
   
   /**
-   * Create a new Sequence with optional seed
+   * Width of the counter in bytes, between 1 and 8
    */
-  constructor(options?: { seed?: KSUID });
+  readonly width: number;
+  
+  /**
+   * Whether a new random seed is started once the sequence is exhausted
+   */
+  readonly autoReseed: boolean;
+  
+  /**
+   * Create a new Sequence with optional seed, counter width (default 2),
+   * auto-reseed mode and random source
+   */
+  constructor(options?: { seed?: KSUID, width?: number, autoReseed?: boolean, random?: RandomSource });
   
   /**
    * Produces the next KSUID in the sequence
@@ -156,8 +428,421 @@ export class Sequence {
    */
   next(): KSUID;
   
+  /**
+   * Returns the number of KSUIDs that can still be generated from the current seed
+   */
+  remaining(): bigint;
+  
+  /**
+   * Restarts the sequence from the given seed, or from a new random one
+   */
+  reset(seed?: KSUID): void;
+  
   /**
    * Returns the inclusive min and max bounds of KSUIDs that may be generated
    */
   bounds(): { min: KSUID, max: KSUID };
-} 
\ No newline at end of file
+  
+  /**
+   * Returns the state of the sequence so generation can be resumed
+   */
+  toJSON(): SequenceState;
+  
+  /**
+   * Recreates a sequence from a state returned by `toJSON()`
+   */
+  static restore(state: SequenceState, options?: { random?: RandomSource }): Sequence;
+}
+
+/**
+ * MonotonicGenerator class - generates strictly increasing KSUIDs
+ * Within the same second, each ID is the previous one plus a random increment
+ */
+export class MonotonicGenerator {
+  /**
+   * Create a new MonotonicGenerator with an optional random source and clock
+   */
+  constructor(options?: { random?: RandomSource, clock?: () => Date });
+
+  /**
+   * Produces the next KSUID, strictly greater than all previous ones
+   */
+  next(): KSUID;
+}
+
+/**
+ * Read-only view of a KSUID stored in a larger buffer, e.g. a file of packed binary IDs
+ * Nothing is copied: the view reads the buffer directly. Use `toKSUID()` to take a copy.
+ */
+export class KSUIDView {
+  /**
+   * Buffer holding the KSUID
+   */
+  readonly buffer: Uint8Array;
+  
+  /**
+   * Offset of the KSUID in the buffer
+   */
+  readonly offset: number;
+  
+  /**
+   * Create a view of the 20 bytes of buffer starting at offset
+   */
+  constructor(buffer: Uint8Array, offset?: number);
+  
+  /**
+   * Get the raw bytes of the KSUID, sharing memory with the buffer
+   */
+  getBytes(): Uint8Array;
+  
+  /**
+   * Get the timestamp portion of the ID as a Date object
+   */
+  getTime(): Date;
+  
+  /**
+   * Get the timestamp portion of the ID as an unsigned integer (seconds since KSUID epoch)
+   */
+  getTimestamp(): number;
+  
+  /**
+   * Get the 16-byte payload, sharing memory with the buffer
+   */
+  getPayload(): Uint8Array;
+  
+  /**
+   * String-encoded representation, base62 unless another encoding is given
+   */
+  toString(encoding?: Encoding): string;
+  
+  /**
+   * Compare with a KSUID or another view without allocating
+   */
+  compare(other: KSUID | KSUIDView): number;
+  
+  /**
+   * Check if the view holds the same KSUID as a KSUID or another view
+   */
+  equals(other: KSUID | KSUIDView): boolean;
+  
+  /**
+   * Copy the 20 bytes of the KSUID into buffer at the given offset
+   */
+  writeTo(buffer: Uint8Array, offset?: number): void;
+  
+  /**
+   * Copy the viewed bytes into a standalone KSUID
+   */
+  toKSUID(): KSUID;
+}
+
+/**
+ * Unsigned 128-bit integer, the type of KSUID payloads
+ * Arithmetic wraps around modulo 2^128, the `checked` variants throw a KSUIDRangeError instead
+ */
+export class Uint128 {
+  constructor(high?: bigint | number, low?: bigint | number);
+  
+  /**
+   * Create a Uint128 from a payload section of a KSUID
+   */
+  static fromPayload(payload: Uint8Array): Uint128;
+  
+  /**
+   * Create a Uint128 from a bigint between 0 and 2^128 - 1
+   */
+  static fromBigInt(value: bigint): Uint128;
+  
+  toKSUID(timestamp: number): Uint8Array;
+  toBytes(): Uint8Array;
+  toBigInt(): bigint;
+  toString(): string;
+  compare(other: Uint128): number;
+  equals(other: Uint128): boolean;
+  
+  add(other: Uint128): Uint128;
+  checkedAdd(other: Uint128): Uint128;
+  subtract(other: Uint128): Uint128;
+  checkedSubtract(other: Uint128): Uint128;
+  multiply(other: Uint128): Uint128;
+  checkedMultiply(other: Uint128): Uint128;
+  
+  /**
+   * Division rounding down, throws a KSUIDRangeError when dividing by zero
+   */
+  divide(other: Uint128): Uint128;
+  remainder(other: Uint128): Uint128;
+  
+  shiftLeft(bits: number): Uint128;
+  shiftRight(bits: number): Uint128;
+  and(other: Uint128): Uint128;
+  or(other: Uint128): Uint128;
+  xor(other: Uint128): Uint128;
+  not(): Uint128;
+  increment(): Uint128;
+  decrement(): Uint128;
+  
+  static readonly ZERO: Uint128;
+  static readonly ONE: Uint128;
+  static readonly MAX: Uint128;
+}
+
+/**
+ * KSUIDFactory creates KSUIDs with timestamps relative to a custom epoch
+ * KSUIDs created or parsed by a factory report their time relative to its epoch.
+ * The bytes and string encodings are the same as standard KSUIDs.
+ */
+export class KSUIDFactory {
+  /**
+   * Epoch of the timestamps, in seconds since the Unix epoch
+   */
+  readonly epoch: number;
+  
+  /**
+   * Create a factory for the given epoch, in seconds since the Unix epoch or as a Date
+   * Defaults to the standard KSUID epoch
+   */
+  constructor(options?: { epoch?: number | Date });
+  
+  /**
+   * Create a new KSUID with current timestamp and random payload
+   */
+  new(options?: { random?: RandomSource }): KSUID;
+  
+  /**
+   * Create a new KSUID with a specific timestamp and random payload
+   */
+  randomWithTime(time: Date, options?: { random?: RandomSource }): KSUID;
+  
+  /**
+   * Create a KSUID from parts (timestamp and payload)
+   */
+  fromParts(time: Date, payload: Uint8Array): KSUID;
+  
+  /**
+   * Create a KSUID from a byte array
+   */
+  fromBytes(bytes: Uint8Array): KSUID;
+  
+  /**
+   * Parse a string-encoded KSUID, base62 unless another encoding is given
+   */
+  parse(str: string, encoding?: Encoding): KSUID;
+  
+  /**
+   * Get the time of any KSUID relative to the epoch of this factory
+   */
+  getTime(id: KSUID): Date;
+}
+
+/**
+ * Extended-precision KSUID variant
+ * The timestamp keeps its standard meaning, so these IDs sort with standard KSUIDs
+ * at second granularity. The first 4 payload bytes hold the milliseconds (uint16 BE)
+ * and MILLISECOND_MARKER, leaving 12 random bytes.
+ *
+ * The variant can't be told from the bytes alone: about 1 in 4.3 million standard
+ * KSUIDs carry the marker by chance. Callers state the variant by reading IDs
+ * with MillisecondKSUID, so keep track of which variant a field or column holds.
+ */
+export class MillisecondKSUID extends KSUID {
+  /**
+   * Create a MillisecondKSUID from raw bytes
+   * Throws if the bytes don't carry the millisecond marker
+   */
+  constructor(bytes: Uint8Array);
+  
+  /**
+   * Get the timestamp of the ID as a Date object, with millisecond precision
+   */
+  getTime(): Date;
+  
+  /**
+   * Get the milliseconds within the second of the timestamp
+   */
+  getMilliseconds(): number;
+  
+  /**
+   * Create a new MillisecondKSUID with the current time
+   */
+  static new(options?: { random?: RandomSource }): MillisecondKSUID;
+  
+  /**
+   * Create a new MillisecondKSUID with a specific time and random payload
+   */
+  static randomWithTime(time: Date, options?: { random?: RandomSource }): MillisecondKSUID;
+  
+  /**
+   * Parse a string-encoded MillisecondKSUID, base62 unless another encoding is given
+   * Throws if the KSUID doesn't carry the millisecond marker
+   */
+  static parse(str: string, encoding?: Encoding): MillisecondKSUID;
+  
+  /**
+   * Convert a KSUID of the millisecond variant to a MillisecondKSUID
+   * Throws if the KSUID doesn't carry the millisecond marker
+   */
+  static from(id: KSUID): MillisecondKSUID;
+}
+
+declare const prefixBrand: unique symbol;
+
+/**
+ * A KSUID branded with the prefix of its type, so IDs of different types
+ * can't be mixed up at compile time. Its base62 string, JSON and template
+ * string conversions carry the prefix, so they parse back with its type.
+ */
+export type TypedKSUID<Prefix extends string> = KSUID & { readonly [prefixBrand]: Prefix };
+
+/**
+ * Factory of prefixed KSUIDs of one type, e.g. `user_1BoZGMuixPtHRHwvkZxHEkfLxL4`
+ */
+export interface KSUIDType<Prefix extends string> {
+  /**
+   * Prefix of the string-encoded IDs, without the `_` separator
+   */
+  readonly prefix: Prefix;
+  
+  /**
+   * Generate a new ID of this type
+   */
+  new: (options?: { random?: RandomSource }) => TypedKSUID<Prefix>;
+  
+  /**
+   * Parse a prefixed ID, rejecting IDs of other types
+   */
+  parse(str: string): TypedKSUID<Prefix>;
+  
+  /**
+   * String-encoded ID with its prefix, same as `id.toString()`
+   */
+  toString(id: TypedKSUID<Prefix>): string;
+}
+
+/**
+ * The ID type produced by a KSUIDType, e.g. `type UserId = KSUIDTypeOf<typeof UserId>`
+ */
+export type KSUIDTypeOf<T> = T extends KSUIDType<infer Prefix> ? TypedKSUID<Prefix> : never;
+
+/**
+ * Define a type of prefixed KSUIDs
+ * Prefixes are made of letters, digits and underscores
+ */
+export function defineKSUIDType<Prefix extends string>(prefix: Prefix): KSUIDType<Prefix>;
+
+/**
+ * CompressedSet class - an immutable, compact set of KSUIDs
+ * Binary compatible with the CompressedSet type of the Go implementation
+ */
+export class CompressedSet implements Iterable<KSUID> {
+  /**
+   * Create a CompressedSet from its binary representation
+   */
+  constructor(bytes?: Uint8Array);
+
+  /**
+   * Get the binary representation of the set
+   */
+  getBytes(): Uint8Array;
+
+  /**
+   * Check if the set contains the given KSUID
+   */
+  contains(id: KSUID): boolean;
+
+  /**
+   * Iterate over the KSUIDs of the set in ascending order
+   */
+  [Symbol.iterator](): Iterator<KSUID>;
+
+  /**
+   * String representation listing all KSUIDs of the set
+   */
+  toString(): string;
+
+  /**
+   * Create a CompressedSet from a list of KSUIDs (sorted and deduplicated)
+   */
+  static compress(ids: KSUID[]): CompressedSet;
+
+  /**
+   * Create a CompressedSet from its binary representation
+   */
+  static fromBytes(bytes: Uint8Array): CompressedSet;
+}
+
+/**
+ * KSUIDSortedSet class - a mutable, ordered set of KSUIDs
+ * Members are stored in a single packed Uint8Array, 20 bytes each, and looked up by binary search
+ */
+export class KSUIDSortedSet implements Iterable<KSUID> {
+  /**
+   * Create a set holding the given KSUIDs, in any order and possibly with duplicates
+   */
+  constructor(ids?: Iterable<KSUID>);
+
+  /**
+   * Number of KSUIDs in the set
+   */
+  readonly size: number;
+
+  /**
+   * Check if the set contains the given KSUID
+   */
+  has(id: KSUID): boolean;
+
+  /**
+   * Add a KSUID to the set, returns false if it was already a member
+   */
+  insert(id: KSUID): boolean;
+
+  /**
+   * Remove a KSUID from the set, returns false if it was not a member
+   */
+  delete(id: KSUID): boolean;
+
+  /**
+   * Greatest member lower than or equal to the given KSUID, or null
+   */
+  floor(id: KSUID): KSUID | null;
+
+  /**
+   * Lowest member greater than or equal to the given KSUID, or null
+   */
+  ceiling(id: KSUID): KSUID | null;
+
+  /**
+   * Members between two KSUIDs, inclusive, in ascending order
+   */
+  range(min: KSUID, max: KSUID): KSUID[];
+
+  /**
+   * Members generated between two dates, inclusive, in ascending order
+   */
+  rangeByTime(start: Date, end: Date): KSUID[];
+
+  /**
+   * New set holding the members of both sets
+   */
+  merge(other: KSUIDSortedSet): KSUIDSortedSet;
+
+  /**
+   * Member at the given position in ascending order
+   */
+  at(index: number): KSUID;
+
+  /**
+   * Iterate over the KSUIDs of the set in ascending order
+   */
+  [Symbol.iterator](): Iterator<KSUID>;
+
+  /**
+   * Packed copy of the members, `size * 20` bytes in ascending order
+   */
+  toBytes(): Uint8Array;
+
+  /**
+   * Create a set from packed KSUIDs, which do not need to be sorted and may contain duplicates
+   */
+  static fromBytes(bytes: Uint8Array): KSUIDSortedSet;
+}
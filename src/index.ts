@@ -1,11 +1,48 @@
 // Export the main KSUID class
-export { KSUID } from './ksuid';
+export { KSUID, ParseResult, ParseFailureReason } from './ksuid';
+
+// Export the millisecond-precision variant
+export { MillisecondKSUID } from './millisecond';
+
+// Export typed KSUIDs
+export { TypedKSUID, KSUIDType, KSUIDTypeOf, defineKSUIDType } from './typed';
+
+// Export the KSUIDView class
+export { KSUIDView } from './view';
+
+// Export the Uint128 class
+export { Uint128 } from './uint128';
+
+// Export the KSUIDFactory class
+export { KSUIDFactory } from './factory';
 
 // Export the Sequence class
-export { Sequence } from './sequence';
+export { Sequence, SequenceState } from './sequence';
+
+// Export the MonotonicGenerator class
+export { MonotonicGenerator } from './monotonic';
+
+// Export the CompressedSet class
+export { CompressedSet } from './set';
+
+// Export the KSUIDSortedSet class
+export { KSUIDSortedSet } from './sortedset';
+
+// Export random sources
+export {
+  RandomSource,
+  SeededRandomSource,
+  cryptoRandomSource,
+  setRandomSource,
+  getRandomSource
+} from './random';
+
+// Export error classes
+export { KSUIDError, KSUIDRangeError, KSUIDParseError } from './errors';
 
 // Export utility functions
-export { encodeBase62, decodeBase62 } from './base62';
+export { encodeBase62, decodeBase62, encodeInto, decodeInto } from './base62';
+export { Encoding, ENCODINGS, detectEncoding } from './encodings';
 
 // Export constants
 export {
@@ -13,5 +50,6 @@ export {
   TIMESTAMP_BYTE_LENGTH,
   PAYLOAD_BYTE_LENGTH,
   BYTE_LENGTH,
-  STRING_ENCODED_LENGTH
+  STRING_ENCODED_LENGTH,
+  MILLISECOND_MARKER
 } from './constants'; 
\ No newline at end of file
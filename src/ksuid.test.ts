@@ -1,6 +1,9 @@
+import { inspect } from 'util';
 import { KSUID } from './ksuid';
 import { Sequence } from './sequence';
-import { BYTE_LENGTH, STRING_ENCODED_LENGTH } from './constants';
+import { KSUIDError, KSUIDParseError, KSUIDRangeError } from './errors';
+import { RandomSource, SeededRandomSource, setRandomSource, getRandomSource, cryptoRandomSource } from './random';
+import { BYTE_LENGTH, MAX_STRING_ENCODED, MIN_STRING_ENCODED, STRING_ENCODED_LENGTH } from './constants';
 
 describe('KSUID', () => {
   describe('basic functionality', () => {
@@ -44,6 +47,17 @@ describe('KSUID', () => {
       expect(parsed2.toString()).toBe(parsed.toString());
     });
     
+    it('should round-trip the string representation', () => {
+      for (let i = 0; i < 100; i++) {
+        const id = KSUID.new();
+        expect(KSUID.parse(id.toString()).equals(id)).toBe(true);
+        expect(Array.from(KSUID.parse(id.toString()).getBytes())).toEqual(Array.from(id.getBytes()));
+      }
+      
+      expect(KSUID.Max.toString()).toBe(MAX_STRING_ENCODED);
+      expect(KSUID.Nil.toString()).toBe(MIN_STRING_ENCODED);
+    });
+    
     it('should return Nil for parseOrNil on invalid input', () => {
       const parsed = KSUID.parseOrNil('invalidksuid');
       expect(parsed.equals(KSUID.Nil)).toBe(true);
@@ -96,6 +110,412 @@ describe('KSUID', () => {
     });
   });
   
+  describe('serialization', () => {
+    const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    
+    it('should serialize to JSON as a string', () => {
+      expect(JSON.stringify({ id })).toBe('{"id":"1BoZGMuixPtHRHwvkZxHEkfLxL4"}');
+    });
+    
+    it('should revive KSUID strings under the given keys with JSON.parse', () => {
+      const json = JSON.stringify({ id, ids: [id], parent: null, note: id.toString() });
+      const parsed = JSON.parse(json, KSUID.reviver(['id', 'ids', 'parent']));
+      
+      expect(parsed.id).toBeInstanceOf(KSUID);
+      expect(parsed.id.equals(id)).toBe(true);
+      expect(parsed.ids[0].equals(id)).toBe(true);
+      expect(parsed.parent).toBeNull();
+      // Strings under other keys are kept, even when they look like KSUIDs
+      expect(parsed.note).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+      
+      const byPredicate = JSON.parse(json, KSUID.reviver(key => key === 'note'));
+      expect(byPredicate.note).toBeInstanceOf(KSUID);
+      expect(byPredicate.id).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+      
+      expect(() => JSON.parse('{"id":"not a ksuid"}', KSUID.reviver(['id']))).toThrow(KSUIDParseError);
+    });
+    
+    it('should recreate KSUIDs from structured clones', () => {
+      const clone = structuredClone(id);
+      
+      expect(clone).not.toBeInstanceOf(KSUID);
+      expect(KSUID.fromClone(clone).equals(id)).toBe(true);
+      expect(KSUID.fromClone(structuredClone({ ids: [id] }).ids[0]).equals(id)).toBe(true);
+      expect(() => KSUID.fromClone({ bytes: [1, 2, 3] })).toThrow(KSUIDError);
+      expect(() => KSUID.fromClone(null)).toThrow(KSUIDError);
+    });
+    
+    it('should convert to a string in templates and comparisons', () => {
+      const later = KSUID.randomWithTime(new Date(id.getTime().getTime() + 1000));
+      
+      expect(`id=${id}`).toBe('id=1BoZGMuixPtHRHwvkZxHEkfLxL4');
+      expect('' + id).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+      expect(id.valueOf()).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+      expect(id < later).toBe(true);
+      expect(later > id).toBe(true);
+      // No numeric value, so arithmetic gives NaN
+      expect(+id).toBeNaN();
+      expect(() => (id as unknown as { [Symbol.toPrimitive](hint: string): string })[Symbol.toPrimitive]('bigint')).toThrow(TypeError);
+    });
+    
+    it('should show string, time and payload when inspected', () => {
+      expect(inspect(id)).toBe(
+        'KSUID(1BoZGMuixPtHRHwvkZxHEkfLxL4) { time: 2018-10-19T23:21:55.000Z, ' +
+        'timestamp: 139991315, payload: F971348B516762380E521F2744DAD62E }'
+      );
+    });
+  });
+  
+  describe('tryParse', () => {
+    it('should return the parsed KSUID', () => {
+      const id = KSUID.new();
+      const result = KSUID.tryParse(id.toString());
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.equals(id)).toBe(true);
+      }
+      expect(KSUID.tryParse(MIN_STRING_ENCODED)).toEqual({ ok: true, value: KSUID.Nil });
+    });
+    
+    it('should report wrong lengths', () => {
+      expect(KSUID.tryParse('')).toEqual({ ok: false, reason: 'length', index: 0 });
+      expect(KSUID.tryParse('0ujtsYcgvSTl8PAuAdqWYSMnLO')).toEqual({ ok: false, reason: 'length', index: 26 });
+      expect(KSUID.tryParse('0ujtsYcgvSTl8PAuAdqWYSMnLOvX')).toEqual({ ok: false, reason: 'length', index: 27 });
+    });
+    
+    it('should report invalid characters', () => {
+      expect(KSUID.tryParse('0ujtsYcgvSTl8PAuAd-WYSMnLOv')).toEqual({ ok: false, reason: 'character', index: 18 });
+      expect(KSUID.tryParse('!ujtsYcgvSTl8PAuAdqWYSMnLOv')).toEqual({ ok: false, reason: 'character', index: 0 });
+      expect(() => KSUID.parse('0ujtsYcgvSTl8PAuAd-WYSMnLOv')).toThrowError('Invalid base62 character "-" at position 18');
+    });
+    
+    it('should report values above the maximum', () => {
+      expect(KSUID.tryParse('aWgEPTl1tmebfsQzFP4bxwgy80W')).toEqual({ ok: false, reason: 'overflow', index: 26 });
+      expect(KSUID.tryParse('zzzzzzzzzzzzzzzzzzzzzzzzzzz')).toEqual({ ok: false, reason: 'overflow', index: 0 });
+    });
+    
+    it('should validate strings cheaply', () => {
+      expect(KSUID.isValid(KSUID.new().toString())).toBe(true);
+      expect(KSUID.isValid(MAX_STRING_ENCODED)).toBe(true);
+      expect(KSUID.isValid('0ujtsYcgvSTl8PAuAd WYSMnLOv')).toBe(false);
+      expect(KSUID.isValid('invalidksuid')).toBe(false);
+    });
+  });
+  
+  describe('errors', () => {
+    it('should reject times outside of the timestamp range', () => {
+      const before = new Date('2014-05-13T16:53:19Z');
+      const after = new Date('2150-06-19T23:21:36Z');
+      const payload = new Uint8Array(16);
+      
+      expect(() => KSUID.randomWithTime(before)).toThrow(KSUIDRangeError);
+      expect(() => KSUID.randomWithTime(after)).toThrow(KSUIDRangeError);
+      expect(() => KSUID.fromParts(before, payload)).toThrow(KSUIDRangeError);
+      expect(() => KSUID.fromParts(new Date(NaN), payload)).toThrow(KSUIDRangeError);
+      expect(() => KSUID.generate(1, { time: after })).toThrow(KSUIDRangeError);
+      
+      // Bounds of the range are valid
+      expect(KSUID.fromParts(new Date('2014-05-13T16:53:20Z'), payload).getTimestamp()).toBe(0);
+      expect(KSUID.fromParts(new Date('2150-06-19T23:21:35Z'), payload).getTimestamp()).toBe(0xFFFFFFFF);
+    });
+    
+    it('should return unsigned timestamps across the full uint32 range', () => {
+      expect(KSUID.Max.getTimestamp()).toBe(0xFFFFFFFF);
+      expect(KSUID.Max.getTime().toISOString()).toBe('2150-06-19T23:21:35.000Z');
+      
+      const time = new Date('2100-01-01T00:00:00Z');
+      expect(KSUID.randomWithTime(time).getTime().getTime()).toBe(time.getTime());
+    });
+    
+    it('should report the offending input and position on parse errors', () => {
+      try {
+        KSUID.parse('aWgEPTl1tmebfsQzFP4bxwgy80W');
+        fail('expected parse to throw');
+      } catch (e) {
+        expect(e).toBeInstanceOf(KSUIDParseError);
+        expect(e).toBeInstanceOf(KSUIDError);
+        expect((e as KSUIDParseError).input).toBe('aWgEPTl1tmebfsQzFP4bxwgy80W');
+        expect((e as KSUIDParseError).position).toBe(26);
+      }
+      
+      expect(() => KSUID.parse('short')).toThrow(KSUIDParseError);
+    });
+    
+    it('should use the error hierarchy for other failures', () => {
+      expect(() => new KSUID(new Uint8Array(3))).toThrow(KSUIDError);
+      expect(() => new Sequence({ width: 10 })).toThrow(KSUIDRangeError);
+      expect(new KSUIDRangeError('x')).toBeInstanceOf(Error);
+      expect(new KSUIDParseError('x', 'y', 0).name).toBe('KSUIDParseError');
+    });
+  });
+  
+  describe('time ranges', () => {
+    const start = new Date('2022-01-01T00:00:00Z');
+    const end = new Date('2022-01-02T00:00:00Z');
+    
+    it('should return the bounds of a second', () => {
+      const min = KSUID.minForTime(start);
+      const max = KSUID.maxForTime(start);
+      
+      expect(min.getTime().getTime()).toBe(start.getTime());
+      expect(max.getTime().getTime()).toBe(start.getTime());
+      expect(Array.from(min.getPayload())).toEqual(new Array(16).fill(0));
+      expect(Array.from(max.getPayload())).toEqual(new Array(16).fill(0xFF));
+    });
+    
+    it('should contain all KSUIDs created within the range', () => {
+      const { min, max } = KSUID.rangeFor(start, end);
+      
+      for (const time of [start, new Date('2022-01-01T12:34:56.789Z'), end]) {
+        const id = KSUID.randomWithTime(time);
+        expect(min.compare(id)).toBeLessThanOrEqual(0);
+        expect(max.compare(id)).toBeGreaterThanOrEqual(0);
+      }
+      
+      const outside = KSUID.randomWithTime(new Date(end.getTime() + 1000));
+      expect(max.compare(outside)).toBeLessThan(0);
+    });
+    
+    it('should return string bounds that sort like the KSUIDs', () => {
+      const { min, max } = KSUID.stringRangeFor(start, end);
+      const id = KSUID.randomWithTime(new Date('2022-01-01T06:00:00Z')).toString();
+      
+      expect(min < id && id < max).toBe(true);
+      expect(KSUID.parse(min).equals(KSUID.minForTime(start))).toBe(true);
+    });
+    
+    it('should clamp to the timestamp range', () => {
+      expect(KSUID.minForTime(new Date(0)).equals(KSUID.Nil)).toBe(true);
+      expect(KSUID.maxForTime(new Date('2200-01-01T00:00:00Z')).equals(KSUID.Max)).toBe(true);
+    });
+    
+    it('should reject reversed ranges', () => {
+      expect(() => KSUID.rangeFor(end, start)).toThrowError('Range start must not be after its end');
+    });
+  });
+  
+  describe('arithmetic', () => {
+    const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+
+    it('should convert to and from 160-bit integers', () => {
+      expect(id.toBigInt()).toBe(0x08581913f971348b516762380e521f2744dad62en);
+      expect(KSUID.fromBigInt(id.toBigInt()).equals(id)).toBe(true);
+      expect(KSUID.Nil.toBigInt()).toBe(0n);
+      expect(KSUID.Max.toBigInt()).toBe((1n << 160n) - 1n);
+      expect(() => KSUID.fromBigInt(1n << 160n)).toThrowError(KSUIDRangeError);
+      expect(() => KSUID.fromBigInt(-1n)).toThrowError('Value is out of the KSUID range');
+    });
+
+    it('should add and subtract across the timestamp boundary', () => {
+      expect(id.add(1).equals(id.next())).toBe(true);
+      expect(id.subtract(1).equals(id.prev())).toBe(true);
+      expect(id.add(-5).equals(id.subtract(5))).toBe(true);
+      expect(id.add(1n << 128n).getTimestamp()).toBe(id.getTimestamp() + 1);
+      expect(id.add(1n << 128n).getPayload()).toEqual(id.getPayload());
+
+      const lastOfSecond = KSUID.maxForTime(new Date('2024-01-01T00:00:00Z'));
+      expect(lastOfSecond.add(1).equals(KSUID.minForTime(new Date('2024-01-01T00:00:01Z')))).toBe(true);
+      expect(lastOfSecond.next().equals(lastOfSecond.add(1))).toBe(true);
+    });
+
+    it('should not go past Nil or Max', () => {
+      expect(() => KSUID.Max.add(1)).toThrowError(KSUIDRangeError);
+      expect(() => KSUID.Nil.subtract(1)).toThrowError(KSUIDRangeError);
+      expect(() => id.add(0.5)).toThrowError('Offset must be a safe integer, got 0.5');
+    });
+
+    it('should compute signed distances', () => {
+      const other = id.add(12345);
+      expect(id.distance(other)).toBe(12345n);
+      expect(other.distance(id)).toBe(-12345n);
+      expect(id.add(id.distance(KSUID.Max)).equals(KSUID.Max)).toBe(true);
+      expect(KSUID.Nil.distance(KSUID.Max)).toBe((1n << 160n) - 1n);
+    });
+  });
+
+  describe('partitioning', () => {
+    it('should split the full ID space into balanced contiguous ranges', () => {
+      const ranges = KSUID.split(KSUID.Nil, KSUID.Max, 7);
+      const total = 1n << 160n;
+
+      expect(ranges).toHaveLength(7);
+      expect(ranges[0].min.equals(KSUID.Nil)).toBe(true);
+      expect(ranges[6].max.equals(KSUID.Max)).toBe(true);
+
+      for (let i = 0; i < ranges.length; i++) {
+        const size = ranges[i].min.distance(ranges[i].max) + 1n;
+        expect(size === total / 7n || size === total / 7n + 1n).toBe(true);
+        if (i > 0) {
+          expect(ranges[i - 1].max.add(1).equals(ranges[i].min)).toBe(true);
+        }
+      }
+    });
+
+    it('should split time ranges', () => {
+      const { min, max } = KSUID.rangeFor(new Date('2024-01-01T00:00:00Z'), new Date('2024-01-01T00:00:09Z'));
+      const ranges = KSUID.split(min, max, 10);
+
+      // Each range covers exactly one second
+      ranges.forEach((range, i) => {
+        expect(range.min.getTimestamp()).toBe(min.getTimestamp() + i);
+        expect(range.min.equals(KSUID.minForTime(range.min.getTime()))).toBe(true);
+        expect(range.max.equals(KSUID.maxForTime(range.min.getTime()))).toBe(true);
+      });
+    });
+
+    it('should give the larger ranges first', () => {
+      const min = KSUID.Nil;
+      const sizes = KSUID.split(min, min.add(9), 4).map(range => range.min.distance(range.max) + 1n);
+      expect(sizes).toEqual([3n, 3n, 2n, 2n]);
+      expect(KSUID.split(min, min, 1)[0].max.equals(min)).toBe(true);
+    });
+
+    it('should reject invalid splits', () => {
+      expect(() => KSUID.split(KSUID.Max, KSUID.Nil, 2)).toThrowError('Range min must not be after its max');
+      expect(() => KSUID.split(KSUID.Nil, KSUID.Max, 0)).toThrowError(KSUIDRangeError);
+      expect(() => KSUID.split(KSUID.Nil, KSUID.Nil.add(2), 4)).toThrowError('Cannot split a range of 3 KSUIDs into 4 parts');
+    });
+
+    it('should assign stable, balanced shards', () => {
+      const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+      expect(KSUID.shardOf(id, 1000)).toBe(724);
+      expect(KSUID.shardOf(id, 16)).toBe(4);
+      expect(KSUID.shardOf(id, 1)).toBe(0);
+
+      const counts = new Array(4).fill(0);
+      const random = new SeededRandomSource(3);
+      for (let i = 0; i < 4000; i++) {
+        counts[KSUID.shardOf(KSUID.new({ random }), 4)]++;
+      }
+      for (const count of counts) {
+        expect(count).toBeGreaterThan(850);
+        expect(count).toBeLessThan(1150);
+      }
+
+      expect(() => KSUID.shardOf(id, 0)).toThrowError('Invalid shard count: 0');
+    });
+
+    it('should spread payloads that only differ in their high bytes', () => {
+      // The payload modulo 16 would put all of these in shard 0
+      const shards = new Set<number>();
+      for (let i = 0; i < 64; i++) {
+        const payload = new Uint8Array(16);
+        payload[0] = i;
+        shards.add(KSUID.shardOf(KSUID.fromParts(new Date('2024-01-01T00:00:00Z'), payload), 16));
+      }
+      expect(shards.size).toBe(16);
+    });
+  });
+
+  describe('bulk generation', () => {
+    it('should generate packed KSUIDs', () => {
+      const time = new Date('2021-03-04T05:06:07Z');
+      const bytes = KSUID.generate(100, { time });
+      
+      expect(bytes.length).toBe(100 * BYTE_LENGTH);
+      
+      const ids = new Set<string>();
+      for (let i = 0; i < 100; i++) {
+        const id = KSUID.fromBytes(bytes.subarray(i * BYTE_LENGTH, (i + 1) * BYTE_LENGTH));
+        expect(id.getTime().toISOString()).toBe('2021-03-04T05:06:07.000Z');
+        ids.add(id.toString());
+      }
+      expect(ids.size).toBe(100);
+    });
+    
+    it('should draw randomness in a single batch', () => {
+      const random = new SeededRandomSource(7);
+      const spy = jest.spyOn(random, 'randomBytes');
+      
+      KSUID.generate(1000, { random });
+      
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(1000 * 16);
+    });
+    
+    it('should reject invalid counts', () => {
+      expect(KSUID.generate(0).length).toBe(0);
+      expect(() => KSUID.generate(-1)).toThrowError('Count must be a non-negative integer');
+      expect(() => KSUID.generate(1.5)).toThrowError('Count must be a non-negative integer');
+    });
+    
+    it('should stream KSUIDs synchronously', () => {
+      const random = new SeededRandomSource(7);
+      const spy = jest.spyOn(random, 'randomBytes');
+      const ids = Array.from(KSUID.stream({ count: 10, batchSize: 4, random }));
+      
+      expect(ids.length).toBe(10);
+      expect(new Set(ids.map(id => id.toString())).size).toBe(10);
+      expect(spy.mock.calls).toEqual([[64], [64], [32]]);
+    });
+    
+    it('should reject invalid stream options', () => {
+      expect(() => KSUID.stream({ count: 2.5 })).toThrowError(KSUIDRangeError);
+      expect(() => KSUID.stream({ count: -1 })).toThrowError('Count must be a non-negative integer');
+      expect(() => KSUID.stream({ batchSize: 0 })).toThrowError('Batch size must be a positive integer');
+      expect(() => KSUID.stream({ batchSize: -4 })).toThrowError(KSUIDRangeError);
+      expect(() => KSUID.stream({ batchSize: 1.5 })).toThrowError(KSUIDRangeError);
+      expect(Array.from(KSUID.stream({ count: 0 }))).toEqual([]);
+    });
+    
+    it('should stream KSUIDs asynchronously', async () => {
+      const ids: KSUID[] = [];
+      for await (const id of KSUID.stream({ count: 5 })) {
+        ids.push(id);
+      }
+      expect(ids.length).toBe(5);
+    });
+    
+    it('should stream lazily when no count is given', () => {
+      let n = 0;
+      for (const id of KSUID.stream()) {
+        expect(id).toBeInstanceOf(KSUID);
+        if (++n === 3000) {
+          break;
+        }
+      }
+      expect(n).toBe(3000);
+    });
+  });
+  
+  describe('random sources', () => {
+    afterEach(() => setRandomSource());
+
+    it('should produce reproducible KSUIDs from a seeded source', () => {
+      const time = new Date('2020-01-01T00:00:00Z');
+      const id1 = KSUID.randomWithTime(time, { random: new SeededRandomSource(42) });
+      const id2 = KSUID.randomWithTime(time, { random: new SeededRandomSource(42) });
+      const id3 = KSUID.randomWithTime(time, { random: new SeededRandomSource(43) });
+      
+      expect(id1.equals(id2)).toBe(true);
+      expect(id1.equals(id3)).toBe(false);
+    });
+    
+    it('should use the per-call source', () => {
+      const random: RandomSource = { randomBytes: (length: number) => new Uint8Array(length).fill(7) };
+      const id = KSUID.new({ random });
+      
+      expect(Array.from(id.getPayload())).toEqual(new Array(16).fill(7));
+    });
+    
+    it('should use the global source and restore the default', () => {
+      const random: RandomSource = { randomBytes: (length: number) => new Uint8Array(length).fill(9) };
+      setRandomSource(random);
+      
+      expect(getRandomSource()).toBe(random);
+      expect(Array.from(KSUID.new().getPayload())).toEqual(new Array(16).fill(9));
+      
+      setRandomSource();
+      expect(getRandomSource()).toBe(cryptoRandomSource);
+    });
+    
+    it('should reject sources returning the wrong number of bytes', () => {
+      const random: RandomSource = { randomBytes: () => new Uint8Array(3) };
+      expect(() => KSUID.new({ random })).toThrowError('Random source returned 3 bytes instead of 16');
+    });
+  });
+  
   describe('Sequence', () => {
     it('should generate sequential IDs', () => {
       const seq = new Sequence();
@@ -150,13 +570,76 @@ describe('KSUID', () => {
     it('should throw when sequence is exhausted', () => {
       const seq = new Sequence();
       
-      // Set count to max
-      for (let i = 0; i < 0xFFFF; i++) {
-        seq.next();
+      // Generate all IDs, the last one uses counter 0xFFFF
+      let last = seq.next();
+      for (let i = 1; i <= 0xFFFF; i++) {
+        last = seq.next();
       }
+      expect(last.equals(seq.bounds().max)).toBe(true);
+      expect(seq.remaining()).toBe(0n);
       
       // Next call should throw
       expect(() => seq.next()).toThrowError('Too many IDs were generated');
     });
+    
+    it('should support configurable counter widths', () => {
+      const seq = new Sequence({ width: 1 });
+      expect(seq.remaining()).toBe(256n);
+      
+      const ids = Array.from({ length: 256 }, () => seq.next());
+      expect(KSUID.isSorted(ids)).toBe(true);
+      expect(seq.remaining()).toBe(0n);
+      expect(() => seq.next()).toThrowError('Too many IDs were generated');
+      
+      expect(new Sequence({ width: 8 }).remaining()).toBe(1n << 64n);
+      expect(() => new Sequence({ width: 0 })).toThrowError('Sequence counter width must be between 1 and 8 bytes');
+      expect(() => new Sequence({ width: 9 })).toThrowError('Sequence counter width must be between 1 and 8 bytes');
+    });
+    
+    it('should start a new seed when exhausted in auto-reseed mode', () => {
+      const seq = new Sequence({ width: 1, autoReseed: true });
+      const firstSeed = seq.seed;
+      
+      for (let i = 0; i < 256; i++) {
+        seq.next();
+      }
+      const id = seq.next();
+      
+      expect(seq.seed.equals(firstSeed)).toBe(false);
+      expect(id.getBytes()[19]).toBe(0);
+      expect(seq.remaining()).toBe(255n);
+    });
+    
+    it('should reset to a given seed', () => {
+      const seq = new Sequence();
+      seq.next();
+      
+      const seed = KSUID.new();
+      seq.reset(seed);
+      
+      expect(seq.seed.equals(seed)).toBe(true);
+      expect(seq.remaining()).toBe(0x10000n);
+    });
+    
+    it('should checkpoint and resume without duplicates', () => {
+      const seq = new Sequence({ width: 3 });
+      const before = Array.from({ length: 10 }, () => seq.next());
+      
+      const state = JSON.parse(JSON.stringify(seq));
+      expect(state).toEqual({ seed: seq.seed.toString(), count: '10', width: 3, autoReseed: false });
+      
+      const restored = Sequence.restore(state);
+      const after = restored.next();
+      
+      expect(restored.seed.equals(seq.seed)).toBe(true);
+      expect(after.equals(seq.next())).toBe(true);
+      expect(before[9].compare(after)).toBeLessThan(0);
+    });
+    
+    it('should reject invalid states', () => {
+      const state = new Sequence({ width: 1 }).toJSON();
+      expect(() => Sequence.restore({ ...state, count: '257' })).toThrowError('Invalid sequence count: 257');
+      expect(() => Sequence.restore({ ...state, count: '-1' })).toThrowError('Invalid sequence count: -1');
+    });
   });
 }); 
\ No newline at end of file
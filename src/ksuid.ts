@@ -7,45 +7,28 @@ import {
   STRING_ENCODED_LENGTH, 
   TIMESTAMP_BYTE_LENGTH 
 } from './constants';
-import { encodeBase62, decodeBase62 } from './base62';
+import { encodeBase62, decodeBase62, invalidBase62Index } from './base62';
 import { Uint128, uint128Payload } from './uint128';
+import { RandomSource, getRandomBytes } from './random';
+import { KSUIDError, KSUIDParseError, KSUIDRangeError } from './errors';
+import { Encoding, encode, encodedLength, decode } from './encodings';
+import type { KSUIDView } from './view';
 
 /**
- * Generate cryptographically secure random bytes
- * Supports both browser and Node.js environments
+ * Why a string could not be parsed as a KSUID
+ * - `length`: the string is not as long as its encoding requires, e.g. STRING_ENCODED_LENGTH characters for base62
+ * - `character`: the string contains a character that is not valid in its encoding
+ * - `overflow`: the base62 string encodes a value above MAX_STRING_ENCODED
  */
-function getRandomBytes(length: number): Uint8Array {
-  const bytes = new Uint8Array(length);
-  
-  // Browser
-  if (typeof window !== 'undefined' && 
-      window.crypto && 
-      window.crypto.getRandomValues) {
-    window.crypto.getRandomValues(bytes);
-    return bytes;
-  }
-  
-  // Node.js environment
-  if (typeof process !== 'undefined' && process.versions && process.versions.node) {
-    try {
-      // Direct require for Node.js environments
-      // This will be properly handled by Jest when running in Node environment
-      // @ts-ignore - Ignoring TS error since this is a runtime check
-      const crypto = require('crypto');
-      const nodeRandomBytes = crypto.randomBytes(length);
-      for (let i = 0; i < length; i++) {
-        bytes[i] = nodeRandomBytes[i];
-      }
-      return bytes;
-    } catch (e: unknown) {
-      // Handle errors when require is not available
-      const errorMessage = e instanceof Error ? e.message : String(e);
-      throw new Error('Failed to load crypto module: ' + errorMessage);
-    }
-  }
-  
-  throw new Error('No secure random number generator available');
-}
+export type ParseFailureReason = 'length' | 'character' | 'overflow';
+
+/**
+ * Result of `KSUID.tryParse`
+ * On failure, `index` is the position of the offending character
+ */
+export type ParseResult =
+  | { ok: true, value: KSUID }
+  | { ok: false, reason: ParseFailureReason, index: number };
 
 /**
  * KSUID class
@@ -62,7 +45,7 @@ export class KSUID {
   constructor(bytes?: Uint8Array) {
     if (bytes) {
       if (bytes.length !== BYTE_LENGTH) {
-        throw new Error(`Valid KSUIDs are ${BYTE_LENGTH} bytes`);
+        throw new KSUIDError(`Valid KSUIDs are ${BYTE_LENGTH} bytes`);
       }
       this.bytes = new Uint8Array(bytes);
     } else {
@@ -88,7 +71,8 @@ export class KSUID {
    * Get the timestamp portion of the ID as a bare integer (uncorrected for KSUID's special epoch)
    */
   public getTimestamp(): number {
-    return (this.bytes[0] << 24) | (this.bytes[1] << 16) | (this.bytes[2] << 8) | this.bytes[3];
+    // `>>> 0` keeps the result unsigned for timestamps >= 2^31
+    return ((this.bytes[0] << 24) | (this.bytes[1] << 16) | (this.bytes[2] << 8) | this.bytes[3]) >>> 0;
   }
 
   /**
@@ -99,10 +83,50 @@ export class KSUID {
   }
 
   /**
-   * String-encoded representation
+   * String-encoded representation, base62 unless another encoding is given
+   */
+  public toString(encoding: Encoding = 'base62'): string {
+    return encoding === 'base62' ? encodeBase62(this.bytes) : encode(this.bytes, encoding);
+  }
+
+  /**
+   * JSON representation, the base62 string
+   * Use `KSUID.reviver()` to turn it back into a KSUID with `JSON.parse`
    */
-  public toString(): string {
-    return encodeBase62(this.bytes);
+  public toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Primitive value, the base62 string
+   * Base62 strings sort like the KSUIDs, so `<` and `>` compare KSUIDs correctly
+   */
+  public valueOf(): string {
+    return this.toString();
+  }
+
+  /**
+   * Convert to the base62 string in template strings, concatenations and comparisons
+   * `<` and `>` ask for a number, so the `number` hint gets the base62 string too,
+   * which makes arithmetic like `+id` NaN rather than a misleading number
+   */
+  public [Symbol.toPrimitive](hint: 'string' | 'number' | 'default'): string {
+    switch (hint) {
+      case 'string':
+      case 'default':
+      case 'number':
+        return this.toString();
+      default:
+        throw new TypeError(`Invalid conversion hint: ${String(hint)}`);
+    }
+  }
+
+  /**
+   * Representation shown by Node's `util.inspect` and `console.log`
+   */
+  public [Symbol.for('nodejs.util.inspect.custom')](): string {
+    return `KSUID(${this.toString()}) { time: ${this.getTime().toISOString()}, ` +
+      `timestamp: ${this.getTimestamp()}, payload: ${encode(this.bytes, 'hex').slice(8).toUpperCase()} }`;
   }
 
   /**
@@ -113,28 +137,30 @@ export class KSUID {
   }
 
   /**
-   * Compare this KSUID with another one
+   * Compare this KSUID with another one, or with a KSUIDView, without allocating
    * Returns negative if this < other, positive if this > other, 0 if equal
    */
-  public compare(other: KSUID): number {
-    // Ensure we're comparing the actual content of the bytes, not just references
-    const thisBytes = this.getBytes();
-    const otherBytes = other.getBytes();
+  public compare(other: KSUID | KSUIDView): number {
+    return other instanceof KSUID
+      ? compareBytes(this.bytes, 0, other.bytes, 0)
+      : compareBytes(this.bytes, 0, other.buffer, other.offset);
+  }
 
-    for (let i = 0; i < BYTE_LENGTH; i++) {
-      if (thisBytes[i] !== otherBytes[i]) {
-        return thisBytes[i] - otherBytes[i];
-      }
-    }
-    return 0;
+  /**
+   * Check if this KSUID equals another one, or a KSUIDView
+   */
+  public equals(other: KSUID | KSUIDView): boolean {
+    return this.compare(other) === 0;
   }
 
   /**
-   * Check if this KSUID equals another one
+   * Copy the 20 bytes of the KSUID into buffer at the given offset
    */
-  public equals(other: KSUID): boolean {
-    // Compare string representations for more reliable equality
-    return this.toString() === other.toString();
+  public writeTo(buffer: Uint8Array, offset: number = 0): void {
+    if (offset < 0 || offset + BYTE_LENGTH > buffer.length) {
+      throw new KSUIDRangeError('Offsets are out of the buffer bounds');
+    }
+    buffer.set(this.bytes, offset);
   }
 
   /**
@@ -167,31 +193,63 @@ export class KSUID {
     return new KSUID(prevValue.toKSUID(timestamp));
   }
 
+  /**
+   * The KSUID as an unsigned 160-bit integer, timestamp in the most significant bits
+   */
+  public toBigInt(): bigint {
+    let value = 0n;
+    for (let i = 0; i < BYTE_LENGTH; i++) {
+      value = (value << 8n) | BigInt(this.bytes[i]);
+    }
+    return value;
+  }
+
+  /**
+   * The KSUID `n` positions after this one in the 160-bit ID space
+   * A negative `n` moves backwards. Throws a KSUIDRangeError past Nil or Max.
+   */
+  public add(n: bigint | number): KSUID {
+    return KSUID.fromBigInt(this.toBigInt() + toBigIntOffset(n));
+  }
+
+  /**
+   * The KSUID `n` positions before this one in the 160-bit ID space
+   * Throws a KSUIDRangeError past Nil or Max.
+   */
+  public subtract(n: bigint | number): KSUID {
+    return KSUID.fromBigInt(this.toBigInt() - toBigIntOffset(n));
+  }
+
+  /**
+   * Number of positions from this KSUID to another in the 160-bit ID space,
+   * negative when the other KSUID is lower, so `a.add(a.distance(b))` equals `b`
+   */
+  public distance(other: KSUID): bigint {
+    return other.toBigInt() - this.toBigInt();
+  }
+
   // Static factory methods
 
   /**
    * Create a new KSUID with current timestamp and random payload
+   * The payload is read from `options.random`, or the global random source
    */
-  public static new(): KSUID {
-    return KSUID.randomWithTime(new Date());
+  public static new(options: { random?: RandomSource } = {}): KSUID {
+    return KSUID.randomWithTime(new Date(), options);
   }
 
   /**
    * Create a new KSUID with a specific timestamp and random payload
    */
-  public static randomWithTime(time: Date): KSUID {
+  public static randomWithTime(time: Date, options: { random?: RandomSource } = {}): KSUID {
     // Generate random payload
-    const payload = getRandomBytes(PAYLOAD_BYTE_LENGTH);
+    const payload = getRandomBytes(PAYLOAD_BYTE_LENGTH, options.random);
     
     // Create byte array for KSUID
     const bytes = new Uint8Array(BYTE_LENGTH);
     
     // Set timestamp
-    const timestamp = Math.floor(time.getTime() / 1000) - EPOCH_STAMP;
-    bytes[0] = (timestamp >> 24) & 0xFF;
-    bytes[1] = (timestamp >> 16) & 0xFF;
-    bytes[2] = (timestamp >> 8) & 0xFF;
-    bytes[3] = timestamp & 0xFF;
+    writeTimestamp(bytes, 0, toTimestamp(time));
     
     // Set payload
     bytes.set(payload, TIMESTAMP_BYTE_LENGTH);
@@ -204,17 +262,13 @@ export class KSUID {
    */
   public static fromParts(time: Date, payload: Uint8Array): KSUID {
     if (payload.length !== PAYLOAD_BYTE_LENGTH) {
-      throw new Error(`Valid KSUID payloads are ${PAYLOAD_BYTE_LENGTH} bytes`);
+      throw new KSUIDError(`Valid KSUID payloads are ${PAYLOAD_BYTE_LENGTH} bytes`);
     }
     
     const bytes = new Uint8Array(BYTE_LENGTH);
     
     // Set timestamp
-    const timestamp = Math.floor(time.getTime() / 1000) - EPOCH_STAMP;
-    bytes[0] = (timestamp >> 24) & 0xFF;
-    bytes[1] = (timestamp >> 16) & 0xFF;
-    bytes[2] = (timestamp >> 8) & 0xFF;
-    bytes[3] = timestamp & 0xFF;
+    writeTimestamp(bytes, 0, toTimestamp(time));
     
     // Set payload
     bytes.set(payload, TIMESTAMP_BYTE_LENGTH);
@@ -222,6 +276,23 @@ export class KSUID {
     return new KSUID(bytes);
   }
 
+  /**
+   * Create a KSUID from an unsigned 160-bit integer
+   * Throws a KSUIDRangeError if the value is negative or above the maximum KSUID
+   */
+  public static fromBigInt(value: bigint): KSUID {
+    if (value < 0n || value >= 1n << BigInt(8 * BYTE_LENGTH)) {
+      throw new KSUIDRangeError('Value is out of the KSUID range');
+    }
+
+    const bytes = new Uint8Array(BYTE_LENGTH);
+    for (let i = BYTE_LENGTH - 1; i >= 0; i--) {
+      bytes[i] = Number(value & 0xFFn);
+      value >>= 8n;
+    }
+    return new KSUID(bytes);
+  }
+
   /**
    * Create a KSUID from a byte array
    */
@@ -230,22 +301,170 @@ export class KSUID {
   }
 
   /**
-   * Parse a string-encoded KSUID
+   * Generate `count` KSUIDs at once, packed back to back in a single byte array
+   * of `count * BYTE_LENGTH` bytes. Randomness is drawn in one batch, and no
+   * KSUID instances are created, which makes it suitable for bulk backfills.
    */
-  public static parse(str: string): KSUID {
-    if (str.length !== STRING_ENCODED_LENGTH) {
-      throw new Error(`Valid encoded KSUIDs are ${STRING_ENCODED_LENGTH} characters`);
+  public static generate(count: number, options: { time?: Date, random?: RandomSource } = {}): Uint8Array {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new KSUIDError('Count must be a non-negative integer');
     }
-    
-    if (str < MIN_STRING_ENCODED || str > MAX_STRING_ENCODED) {
-      throw new Error(`Valid encoded KSUIDs are bounded by ${MIN_STRING_ENCODED} and ${MAX_STRING_ENCODED}`);
+
+    const payloads = getRandomBytes(count * PAYLOAD_BYTE_LENGTH, options.random);
+    const timestamp = toTimestamp(options.time || new Date());
+    const bytes = new Uint8Array(count * BYTE_LENGTH);
+
+    for (let i = 0; i < count; i++) {
+      const offset = i * BYTE_LENGTH;
+      writeTimestamp(bytes, offset, timestamp);
+      bytes.set(
+        payloads.subarray(i * PAYLOAD_BYTE_LENGTH, (i + 1) * PAYLOAD_BYTE_LENGTH),
+        offset + TIMESTAMP_BYTE_LENGTH
+      );
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Lazily generate KSUIDs with the current timestamp, as a sync or async iterable
+   * Randomness is drawn in batches of `batchSize` payloads (1024 by default).
+   * The stream is infinite unless `count` is given.
+   * Throws a KSUIDRangeError if `count` is not a non-negative integer or `batchSize` a positive one
+   */
+  public static stream(
+    options: { count?: number, batchSize?: number, random?: RandomSource } = {}
+  ): Iterable<KSUID> & AsyncIterable<KSUID> {
+    const { count = Infinity, batchSize = 1024 } = options;
+    if (count !== Infinity && (!Number.isInteger(count) || count < 0)) {
+      throw new KSUIDRangeError('Count must be a non-negative integer');
+    }
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new KSUIDRangeError('Batch size must be a positive integer');
+    }
+
+    const iterate = () => streamKSUIDs(count, batchSize, options.random);
+
+    return {
+      [Symbol.iterator]: iterate,
+      [Symbol.asyncIterator]: async function* () {
+        yield* iterate();
+      }
+    };
+  }
+
+  /**
+   * Get the lowest KSUID with the timestamp of the given time
+   * Times outside of the KSUID timestamp range are clamped to it
+   */
+  public static minForTime(time: Date): KSUID {
+    return new KSUID(Uint128.ZERO.toKSUID(clampTimestamp(time)));
+  }
+
+  /**
+   * Get the highest KSUID with the timestamp of the given time
+   * Times outside of the KSUID timestamp range are clamped to it
+   */
+  public static maxForTime(time: Date): KSUID {
+    return new KSUID(Uint128.MAX.toKSUID(clampTimestamp(time)));
+  }
+
+  /**
+   * Returns the inclusive min and max bounds of the KSUIDs created between start and end
+   */
+  public static rangeFor(start: Date, end: Date): { min: KSUID, max: KSUID } {
+    if (start.getTime() > end.getTime()) {
+      throw new KSUIDRangeError('Range start must not be after its end');
+    }
+
+    return {
+      min: KSUID.minForTime(start),
+      max: KSUID.maxForTime(end)
+    };
+  }
+
+  /**
+   * Same as `rangeFor` with string-encoded bounds, e.g. for SQL `BETWEEN` clauses
+   */
+  public static stringRangeFor(start: Date, end: Date): { min: string, max: string } {
+    const { min, max } = KSUID.rangeFor(start, end);
+    return { min: min.toString(), max: max.toString() };
+  }
+
+  /**
+   * Parse a string-encoded KSUID, base62 unless another encoding is given
+   */
+  public static parse(str: string, encoding: Encoding = 'base62'): KSUID {
+    const result = KSUID.tryParse(str, encoding);
+    if (!result.ok) {
+      throw new KSUIDParseError(parseFailureMessage(str, encoding, result.reason, result.index), str, result.index);
+    }
+    return result.value;
+  }
+
+  /**
+   * Parse a string-encoded KSUID without throwing, base62 unless another encoding is given
+   * Returns the KSUID, or why and where parsing failed
+   */
+  public static tryParse(str: string, encoding: Encoding = 'base62'): ParseResult {
+    if (encoding !== 'base62') {
+      const length = encodedLength(encoding);
+      if (str.length !== length) {
+        return { ok: false, reason: 'length', index: Math.min(str.length, length) };
+      }
+
+      const bytes = new Uint8Array(BYTE_LENGTH);
+      const invalid = decode(str, encoding, bytes);
+      if (invalid >= 0) {
+        return { ok: false, reason: 'character', index: invalid };
+      }
+      return { ok: true, value: new KSUID(bytes) };
+    }
+
+    const failure = validateString(str);
+    if (failure) {
+      return { ok: false, ...failure };
     }
     
     // Create a new KSUID from the decoded bytes
-    const bytes = decodeBase62(str);
-    // Make a copy of the bytes to ensure we're not sharing references
-    const bytesCopy = new Uint8Array(bytes);
-    return new KSUID(bytesCopy);
+    return { ok: true, value: new KSUID(decodeBase62(str)) };
+  }
+
+  /**
+   * Check if a string is a valid string-encoded KSUID, without decoding it
+   */
+  public static isValid(str: string): boolean {
+    return validateString(str) === null;
+  }
+
+  /**
+   * Reviver for `JSON.parse` turning the strings under the given keys, or the keys matching
+   * a predicate, into KSUIDs, e.g. `JSON.parse(text, KSUID.reviver(['id', 'parentIds']))`
+   * Arrays under those keys have their strings converted, other values are kept as they are
+   * Throws a KSUIDParseError for strings under those keys that are not valid KSUIDs
+   */
+  public static reviver(keys: readonly string[] | ((key: string) => boolean)): (this: unknown, key: string, value: unknown) => unknown {
+    const matches = typeof keys === 'function' ? keys : (key: string) => keys.includes(key);
+    const revive = (value: unknown) => typeof value === 'string' ? KSUID.parse(value) : value;
+
+    return (key: string, value: unknown) => {
+      if (!matches(key)) {
+        return value;
+      }
+      return Array.isArray(value) ? value.map(revive) : revive(value);
+    };
+  }
+
+  /**
+   * Recreate a KSUID from its structured clone, e.g. a KSUID sent with `postMessage`
+   * Structured cloning keeps the bytes of a KSUID but not its class
+   */
+  public static fromClone(value: unknown): KSUID {
+    const bytes = typeof value === 'object' && value !== null ? (value as { bytes?: unknown }).bytes : undefined;
+    if (!(bytes instanceof Uint8Array)) {
+      throw new KSUIDError('Value is not a cloned KSUID');
+    }
+    return new KSUID(bytes);
   }
 
   /**
@@ -278,6 +497,47 @@ export class KSUID {
     return true;
   }
 
+  /**
+   * Split the inclusive range from min to max into n contiguous inclusive ranges
+   * Range sizes differ by at most one, the larger ranges come first
+   */
+  public static split(min: KSUID, max: KSUID, n: number): { min: KSUID, max: KSUID }[] {
+    const start = min.toBigInt();
+    const size = max.toBigInt() - start + 1n;
+    if (size <= 0n) {
+      throw new KSUIDRangeError('Range min must not be after its max');
+    }
+    if (!Number.isSafeInteger(n) || n < 1 || BigInt(n) > size) {
+      throw new KSUIDRangeError(`Cannot split a range of ${size} KSUIDs into ${n} parts`);
+    }
+
+    const parts = BigInt(n);
+    const base = size / parts;
+    const extra = size % parts;
+    const ranges: { min: KSUID, max: KSUID }[] = [];
+
+    let from = start;
+    for (let i = 0n; i < parts; i++) {
+      const to = from + base + (i < extra ? 1n : 0n) - 1n;
+      ranges.push({ min: KSUID.fromBigInt(from), max: KSUID.fromBigInt(to) });
+      from = to + 1n;
+    }
+    return ranges;
+  }
+
+  /**
+   * Shard of a KSUID between 0 and n - 1, from a hash of its payload
+   * Hashing spreads payloads that are not random, e.g. with a fixed prefix,
+   * and the shard never changes for a given ID and n
+   */
+  public static shardOf(id: KSUID, n: number): number {
+    if (!Number.isSafeInteger(n) || n < 1) {
+      throw new KSUIDRangeError(`Invalid shard count: ${n}`);
+    }
+    // The high half of the hash, where every payload bit has been mixed in
+    return Number(hashPayload(id.bytes).shiftRight(64).remainder(Uint128.fromBigInt(BigInt(n))).toBigInt());
+  }
+
   // Static instances
 
   /**
@@ -293,4 +553,153 @@ export class KSUID {
     bytes.fill(0xFF);
     return new KSUID(bytes);
   })();
-} 
\ No newline at end of file
+}
+
+/**
+ * Compare the 20 byte KSUIDs stored in a and b at the given offsets
+ */
+export function compareBytes(a: Uint8Array, aOffset: number, b: Uint8Array, bOffset: number): number {
+  for (let i = 0; i < BYTE_LENGTH; i++) {
+    if (a[aOffset + i] !== b[bOffset + i]) {
+      return a[aOffset + i] - b[bOffset + i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Backing bytes of a KSUID, without the copy made by getBytes()
+ * For lookups inside the library only: the bytes must not be modified
+ */
+export function bytesOf(id: KSUID): Uint8Array {
+  return id['bytes'];
+}
+
+/**
+ * KSUID timestamp of a date
+ * Throws a KSUIDRangeError when the date is outside of the uint32 timestamp range
+ */
+function toTimestamp(time: Date): number {
+  const timestamp = Math.floor(time.getTime() / 1000) - EPOCH_STAMP;
+  if (!(timestamp >= 0 && timestamp <= 0xFFFFFFFF)) {
+    throw new KSUIDRangeError(
+      `Valid KSUID times are between ${new Date(EPOCH_STAMP * 1000).toISOString()} ` +
+      `and ${new Date((EPOCH_STAMP + 0xFFFFFFFF) * 1000).toISOString()}`
+    );
+  }
+  return timestamp;
+}
+
+// 128-bit FNV-1a parameters
+const FNV_OFFSET_BASIS = Uint128.fromBigInt(0x6c62272e07bb014262b821756295c58dn);
+const FNV_PRIME = Uint128.fromBigInt(0x0000000001000000000000000000013bn);
+
+/**
+ * 128-bit FNV-1a hash of the payload of KSUID bytes
+ */
+function hashPayload(bytes: Uint8Array): Uint128 {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = TIMESTAMP_BYTE_LENGTH; i < BYTE_LENGTH; i++) {
+    hash = hash.xor(Uint128.fromBigInt(BigInt(bytes[i]))).multiply(FNV_PRIME);
+  }
+  return hash;
+}
+
+/**
+ * Offset for KSUID arithmetic as a bigint, numbers must be safe integers
+ */
+function toBigIntOffset(n: bigint | number): bigint {
+  if (typeof n === 'number' && !Number.isSafeInteger(n)) {
+    throw new KSUIDRangeError(`Offset must be a safe integer, got ${n}`);
+  }
+  return BigInt(n);
+}
+
+/**
+ * KSUID timestamp of a date, clamped to the uint32 range
+ */
+function clampTimestamp(time: Date): number {
+  const timestamp = Math.floor(time.getTime() / 1000) - EPOCH_STAMP;
+  if (Number.isNaN(timestamp)) {
+    throw new KSUIDRangeError('Invalid date');
+  }
+  return Math.min(Math.max(timestamp, 0), 0xFFFFFFFF);
+}
+
+/**
+ * Write a uint32 BE timestamp into bytes at the given offset
+ */
+function writeTimestamp(bytes: Uint8Array, offset: number, timestamp: number): void {
+  bytes[offset] = (timestamp >>> 24) & 0xFF;
+  bytes[offset + 1] = (timestamp >>> 16) & 0xFF;
+  bytes[offset + 2] = (timestamp >>> 8) & 0xFF;
+  bytes[offset + 3] = timestamp & 0xFF;
+}
+
+/**
+ * Check that str is a valid string-encoded KSUID
+ * Returns null when valid, or the failure reason and offending index
+ */
+function validateString(str: string): { reason: ParseFailureReason, index: number } | null {
+  if (str.length !== STRING_ENCODED_LENGTH) {
+    return { reason: 'length', index: Math.min(str.length, STRING_ENCODED_LENGTH) };
+  }
+
+  const invalid = invalidBase62Index(str);
+  if (invalid >= 0) {
+    return { reason: 'character', index: invalid };
+  }
+
+  // Base62 digits are in ASCII order, so fixed-length strings compare like the values they encode
+  if (str > MAX_STRING_ENCODED) {
+    return { reason: 'overflow', index: firstDifference(str, MAX_STRING_ENCODED) };
+  }
+
+  return null;
+}
+
+/**
+ * Error message of a failed parse
+ */
+function parseFailureMessage(str: string, encoding: Encoding, reason: ParseFailureReason, index: number): string {
+  switch (reason) {
+    case 'length':
+      return encoding === 'base62'
+        ? `Valid encoded KSUIDs are ${STRING_ENCODED_LENGTH} characters`
+        : `Valid ${encoding} encoded KSUIDs are ${encodedLength(encoding)} characters`;
+    case 'character':
+      return `Invalid ${encoding} character "${str[index]}" at position ${index}`;
+    case 'overflow':
+      return `Valid encoded KSUIDs are bounded by ${MIN_STRING_ENCODED} and ${MAX_STRING_ENCODED}`;
+  }
+}
+
+/**
+ * Index of the first character that differs between two strings
+ */
+function firstDifference(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Generator backing `KSUID.stream()`
+ */
+function* streamKSUIDs(count: number, batchSize: number, random?: RandomSource): Generator<KSUID> {
+  let produced = 0;
+
+  while (produced < count) {
+    const size = Math.min(batchSize, count - produced);
+    const payloads = getRandomBytes(size * PAYLOAD_BYTE_LENGTH, random);
+
+    for (let i = 0; i < size; i++) {
+      const start = i * PAYLOAD_BYTE_LENGTH;
+      yield KSUID.fromParts(new Date(), payloads.subarray(start, start + PAYLOAD_BYTE_LENGTH));
+    }
+
+    produced += size;
+  }
+}
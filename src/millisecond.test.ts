@@ -0,0 +1,62 @@
+import { KSUID } from './ksuid';
+import { MillisecondKSUID } from './millisecond';
+import { SeededRandomSource } from './random';
+
+describe('MillisecondKSUID', () => {
+  const time = new Date('2024-03-01T12:34:56.789Z');
+
+  it('should keep millisecond precision', () => {
+    const id = MillisecondKSUID.randomWithTime(time);
+
+    expect(id.getTime()).toEqual(time);
+    expect(id.getMilliseconds()).toBe(789);
+    expect(id.getTimestamp()).toBe(KSUID.randomWithTime(time).getTimestamp());
+    expect(id.toString()).toHaveLength(27);
+    expect(id.getBytes()).toHaveLength(20);
+  });
+
+  it('should round-trip through strings and KSUIDs', () => {
+    const id = MillisecondKSUID.new();
+    const parsed = MillisecondKSUID.parse(id.toString());
+
+    expect(parsed).toBeInstanceOf(MillisecondKSUID);
+    expect(parsed.equals(id)).toBe(true);
+    expect(parsed.getTime()).toEqual(id.getTime());
+    expect(MillisecondKSUID.parse(id.toString('hex'), 'hex').equals(id)).toBe(true);
+
+    const plain = KSUID.parse(id.toString());
+    expect(MillisecondKSUID.from(plain).getMilliseconds()).toBe(id.getMilliseconds());
+  });
+
+  it('should reject KSUIDs without the marker', () => {
+    const random = new SeededRandomSource(7);
+    for (let i = 0; i < 1000; i++) {
+      expect(() => MillisecondKSUID.from(KSUID.new({ random }))).toThrowError('Not a millisecond-precision KSUID');
+    }
+
+    expect(() => MillisecondKSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4')).toThrowError('Not a millisecond-precision KSUID');
+    expect(() => MillisecondKSUID.from(KSUID.Nil)).toThrowError('Not a millisecond-precision KSUID');
+    expect(() => new MillisecondKSUID(KSUID.Max.getBytes())).toThrowError('Not a millisecond-precision KSUID');
+  });
+
+  it('should accept standard KSUIDs that carry the marker by chance', () => {
+    // The variant is stated by the caller, the marker can't tell a standard KSUID apart
+    const bytes = KSUID.new().getBytes();
+    bytes.set([0x01, 0x2C, 0x6D, 0x73], 4);
+
+    expect(MillisecondKSUID.from(new KSUID(bytes)).getMilliseconds()).toBe(300);
+  });
+
+  it('should sort by milliseconds, and with standard KSUIDs by second', () => {
+    const ids = Array.from({ length: 100 }, (_, i) => MillisecondKSUID.randomWithTime(new Date(time.getTime() + i * 37)));
+    const shuffled = [...ids].reverse();
+    KSUID.sort(shuffled);
+    expect(shuffled.map(id => id.toString())).toEqual(ids.map(id => id.toString()));
+
+    const before = KSUID.randomWithTime(new Date('2024-03-01T12:34:55Z'));
+    const after = KSUID.randomWithTime(new Date('2024-03-01T12:34:57Z'));
+    const precise = MillisecondKSUID.randomWithTime(time);
+    expect(before.compare(precise)).toBeLessThan(0);
+    expect(precise.compare(after)).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { KSUID } from './ksuid';
+import { MonotonicGenerator } from './monotonic';
+import { RandomSource, SeededRandomSource } from './random';
+
+describe('MonotonicGenerator', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  it('should generate strictly increasing IDs within the same second', () => {
+    const gen = new MonotonicGenerator({ clock: () => now });
+    const ids = Array.from({ length: 1000 }, () => gen.next());
+
+    for (let i = 1; i < ids.length; i++) {
+      expect(ids[i - 1].compare(ids[i])).toBeLessThan(0);
+      expect(ids[i].getTimestamp()).toBe(ids[0].getTimestamp());
+    }
+  });
+
+  it('should hold the last timestamp when the clock goes backwards', () => {
+    let time = now;
+    const gen = new MonotonicGenerator({ clock: () => time });
+
+    const id1 = gen.next();
+    time = new Date(now.getTime() - 60000);
+    const id2 = gen.next();
+
+    expect(id1.compare(id2)).toBeLessThan(0);
+    expect(id2.getTimestamp()).toBe(id1.getTimestamp());
+  });
+
+  it('should use a fresh random payload when the clock moves forward', () => {
+    let time = now;
+    const gen = new MonotonicGenerator({ clock: () => time, random: new SeededRandomSource(1) });
+
+    const id1 = gen.next();
+    time = new Date(now.getTime() + 1000);
+    const id2 = gen.next();
+
+    expect(id2.getTimestamp()).toBe(id1.getTimestamp() + 1);
+    expect(id2.getTime().getTime()).toBe(time.getTime());
+  });
+
+  it('should bump the timestamp when the payload overflows', () => {
+    const random: RandomSource = { randomBytes: (length: number) => new Uint8Array(length).fill(0xFF) };
+    const gen = new MonotonicGenerator({ clock: () => now, random });
+
+    const id1 = gen.next();
+    const id2 = gen.next();
+
+    expect(id1.compare(id2)).toBeLessThan(0);
+    expect(id2.getTimestamp()).toBe(id1.getTimestamp() + 1);
+    expect(KSUID.isSorted([id1, id2, gen.next()])).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { EPOCH_STAMP, PAYLOAD_BYTE_LENGTH } from './constants';
+import { KSUID } from './ksuid';
+import { RandomSource, getRandomBytes } from './random';
+import { Uint128, uint128Payload } from './uint128';
+import { KSUIDRangeError } from './errors';
+
+/**
+ * MonotonicGenerator is a KSUID generator which never produces an ID lower
+ * than or equal to the previous one.
+ *
+ * Within the same second, each ID is the previous one incremented by a random
+ * amount. When the payload overflows, the timestamp is bumped by one second.
+ * When the clock goes backwards, the last timestamp is held until it catches up.
+ */
+export class MonotonicGenerator {
+  /**
+   * The last KSUID produced by the generator
+   */
+  private last: KSUID | null = null;
+
+  private readonly random?: RandomSource;
+  private readonly clock: () => Date;
+
+  constructor(options: { random?: RandomSource, clock?: () => Date } = {}) {
+    this.random = options.random;
+    this.clock = options.clock || (() => new Date());
+  }
+
+  /**
+   * Produces the next KSUID, strictly greater than all previous ones
+   */
+  public next(): KSUID {
+    const time = this.clock();
+    const last = this.last;
+
+    if (last === null || timestampOf(time) > last.getTimestamp()) {
+      this.last = KSUID.randomWithTime(time, { random: this.random });
+      return this.last;
+    }
+
+    // Same second or clock going backwards: hold the last timestamp
+    const timestamp = last.getTimestamp();
+    const value = uint128Payload(last.getBytes());
+    const increment = this.randomIncrement();
+
+    if (Uint128.MAX.subtract(value).compare(increment) < 0) { // overflow
+      if (timestamp === 0xFFFFFFFF) {
+        throw new KSUIDRangeError('Too many IDs were generated');
+      }
+      const payload = Uint128.fromPayload(getRandomBytes(PAYLOAD_BYTE_LENGTH, this.random));
+      this.last = new KSUID(payload.toKSUID(timestamp + 1));
+    } else {
+      this.last = new KSUID(value.add(increment).toKSUID(timestamp));
+    }
+
+    return this.last;
+  }
+
+  /**
+   * Random increment between 1 and 2^32 inclusive
+   * Keeps IDs hard to guess while leaving room for many IDs per second
+   */
+  private randomIncrement(): Uint128 {
+    const bytes = getRandomBytes(4, this.random);
+    const value = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+    return new Uint128(0n, BigInt(value) + 1n);
+  }
+}
+
+/**
+ * KSUID timestamp of a date
+ */
+function timestampOf(time: Date): number {
+  return Math.floor(time.getTime() / 1000) - EPOCH_STAMP;
+}
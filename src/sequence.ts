@@ -1,69 +1,175 @@
 import { KSUID } from './ksuid';
+import { RandomSource } from './random';
+import { KSUIDError, KSUIDRangeError } from './errors';
+
+/**
+ * Serializable state of a Sequence, as returned by `toJSON()`
+ */
+export interface SequenceState {
+  /**
+   * String-encoded seed KSUID
+   */
+  seed: string;
+
+  /**
+   * Number of KSUIDs already generated from the seed, as a decimal string
+   */
+  count: string;
+
+  /**
+   * Width of the counter in bytes
+   */
+  width: number;
+
+  /**
+   * Whether a new seed is started when the sequence is exhausted
+   */
+  autoReseed: boolean;
+}
 
 /**
  * Sequence is a KSUID generator which produces a sequence of ordered KSUIDs
- * from a seed. Up to 65536 KSUIDs can be generated for a single seed.
+ * from a seed. The last `width` bytes of the seed are replaced by a counter,
+ * so up to 256^width KSUIDs can be generated for a single seed (65536 by default).
  */
 export class Sequence {
   /**
    * The seed KSUID is used as base for the generator
-   * All generated KSUIDs share the same leading 18 bytes of the seed
+   * All generated KSUIDs share the same leading 20 - width bytes of the seed
    */
   public seed: KSUID;
-  
+
+  /**
+   * Width of the counter in bytes, between 1 and 8
+   */
+  public readonly width: number;
+
+  /**
+   * When true, a new random seed is started once the sequence is exhausted
+   * instead of throwing. Ordering is only guaranteed within a single seed.
+   */
+  public readonly autoReseed: boolean;
+
   /**
    * Counter for generating sequential IDs
-   * Only 2 bytes are used (uint16), but we use number for overflow detection
+   * Holds the number of IDs generated from the current seed
    */
-  private count: number = 0;
-  
-  constructor(options: { seed?: KSUID } = {}) {
-    this.seed = options.seed || KSUID.new();
+  private count: bigint = 0n;
+
+  private readonly random?: RandomSource;
+
+  constructor(options: { seed?: KSUID, width?: number, autoReseed?: boolean, random?: RandomSource } = {}) {
+    const width = options.width === undefined ? 2 : options.width;
+    if (!Number.isInteger(width) || width < 1 || width > 8) {
+      throw new KSUIDRangeError('Sequence counter width must be between 1 and 8 bytes');
+    }
+
+    this.width = width;
+    this.autoReseed = options.autoReseed || false;
+    this.random = options.random;
+    this.seed = options.seed || KSUID.new({ random: this.random });
   }
-  
+
   /**
    * Produces the next KSUID in the sequence
    * @returns The next KSUID or throws an error if the sequence is exhausted
    */
   public next(): KSUID {
-    if (this.count >= 0xFFFF) {
-      throw new Error('Too many IDs were generated');
+    if (this.count >= this.capacity()) {
+      if (!this.autoReseed) {
+        throw new KSUIDRangeError('Too many IDs were generated');
+      }
+      this.reset();
     }
-    
+
     const id = this.generateWithSequenceNumber(this.count);
     this.count++;
-    
+
     return id;
   }
-  
+
+  /**
+   * Returns the number of KSUIDs that can still be generated from the current seed
+   */
+  public remaining(): bigint {
+    return this.capacity() - this.count;
+  }
+
+  /**
+   * Restarts the sequence from the given seed, or from a new random one
+   */
+  public reset(seed?: KSUID): void {
+    this.seed = seed || KSUID.new({ random: this.random });
+    this.count = 0n;
+  }
+
   /**
    * Returns the inclusive min and max bounds of the KSUIDs that may be generated by the sequence
    * If all ids have been generated already then the returned min value is equal to the max
    */
   public bounds(): { min: KSUID, max: KSUID } {
-    const count = this.count > 0xFFFF ? 0xFFFF : this.count;
-    
-    // If count is 0, min and max are based on 0 and 0xFFFF
+    // If count is 0, min and max are based on 0 and the max counter value
     // Otherwise, min is based on the last generated count - 1
-    const minCount = count === 0 ? 0 : count - 1;
-    
+    const minCount = this.count === 0n ? 0n : this.count - 1n;
+
     return {
       min: this.generateWithSequenceNumber(minCount),
-      max: this.generateWithSequenceNumber(0xFFFF)
+      max: this.generateWithSequenceNumber(this.capacity() - 1n)
     };
   }
-  
+
+  /**
+   * Returns the state of the sequence so generation can be resumed with `Sequence.restore()`
+   */
+  public toJSON(): SequenceState {
+    return {
+      seed: this.seed.toString(),
+      count: this.count.toString(),
+      width: this.width,
+      autoReseed: this.autoReseed
+    };
+  }
+
+  /**
+   * Recreates a sequence from a state returned by `toJSON()`
+   * The restored sequence continues right after the last generated KSUID
+   */
+  public static restore(state: SequenceState, options: { random?: RandomSource } = {}): Sequence {
+    const sequence = new Sequence({
+      seed: KSUID.parse(state.seed),
+      width: state.width,
+      autoReseed: state.autoReseed,
+      random: options.random
+    });
+
+    if (!/^\d+$/.test(state.count) || BigInt(state.count) > sequence.capacity()) {
+      throw new KSUIDError(`Invalid sequence count: ${state.count}`);
+    }
+    sequence.count = BigInt(state.count);
+
+    return sequence;
+  }
+
+  /**
+   * Number of KSUIDs that can be generated from a single seed
+   */
+  private capacity(): bigint {
+    return 1n << BigInt(8 * this.width);
+  }
+
   /**
    * Generates a KSUID with a specific sequence number
    */
-  private generateWithSequenceNumber(n: number): KSUID {
+  private generateWithSequenceNumber(n: bigint): KSUID {
     // Get a copy of the seed bytes
     const bytes = this.seed.getBytes();
-    
-    // Set the sequence number in the last 2 bytes
-    bytes[bytes.length - 2] = (n >> 8) & 0xFF;
-    bytes[bytes.length - 1] = n & 0xFF;
-    
+
+    // Set the sequence number in the last `width` bytes
+    for (let i = 1; i <= this.width; i++) {
+      bytes[bytes.length - i] = Number(n & 0xFFn);
+      n >>= 8n;
+    }
+
     return new KSUID(bytes);
   }
-} 
\ No newline at end of file
+}
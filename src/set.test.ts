@@ -0,0 +1,108 @@
+import { KSUID } from './ksuid';
+import { CompressedSet } from './set';
+import { Sequence } from './sequence';
+import { BYTE_LENGTH } from './constants';
+
+/**
+ * Build a KSUID from a raw timestamp and the trailing bytes of its payload
+ */
+function makeKSUID(timestamp: number, ...tail: number[]): KSUID {
+  const bytes = new Uint8Array(BYTE_LENGTH);
+  bytes[0] = (timestamp >> 24) & 0xFF;
+  bytes[1] = (timestamp >> 16) & 0xFF;
+  bytes[2] = (timestamp >> 8) & 0xFF;
+  bytes[3] = timestamp & 0xFF;
+  bytes.set(tail, BYTE_LENGTH - tail.length);
+  return new KSUID(bytes);
+}
+
+/**
+ * Hex representation of a KSUID, which sorts like the KSUID bytes
+ */
+function toHex(id: KSUID): string {
+  return Buffer.from(id.getBytes()).toString('hex');
+}
+
+describe('CompressedSet', () => {
+  it('should round-trip an unsorted list with duplicates', () => {
+    const ids = Array.from({ length: 50 }, () => KSUID.new());
+    ids.push(ids[3], ids[7]);
+
+    const set = CompressedSet.compress(ids);
+    const decoded = Array.from(set);
+
+    const expected = [...new Set(ids.map(toHex))].sort();
+    expect(decoded.map(toHex)).toEqual(expected);
+    expect(KSUID.isSorted(decoded)).toBe(true);
+  });
+
+  it('should round-trip sequences of consecutive payloads', () => {
+    const seq = new Sequence();
+    const ids = Array.from({ length: 1000 }, () => seq.next());
+
+    const set = CompressedSet.compress(ids);
+    const decoded = Array.from(set);
+
+    expect(decoded.length).toBe(ids.length);
+    decoded.forEach((id, i) => expect(id.equals(ids[i])).toBe(true));
+
+    // A raw KSUID followed by a single range entry
+    expect(set.getBytes().length).toBe(1 + BYTE_LENGTH + 3);
+  });
+
+  it('should produce the same bytes as the Go implementation', () => {
+    const payload = new Array(16).fill(0xAB);
+    const ids = [
+      makeKSUID(1, 0x01),
+      makeKSUID(1, 0x02),
+      makeKSUID(1, 0x03),
+      makeKSUID(1, 0x10),
+      makeKSUID(0x102, ...payload),
+    ];
+
+    const expected = [
+      0x00, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x01, // raw
+      0xC1, 0x02, // payload range of 2
+      0x81, 0x0D, // payload delta
+      0x42, 0x01, 0x01, ...payload, // time delta + payload
+    ];
+
+    const set = CompressedSet.compress(ids);
+    expect(Array.from(set.getBytes())).toEqual(expected);
+
+    const decoded = Array.from(CompressedSet.fromBytes(new Uint8Array(expected)));
+    expect(decoded.map(toHex)).toEqual(ids.map(toHex));
+  });
+
+  it('should check membership', () => {
+    const ids = [KSUID.new(), KSUID.new(), KSUID.new()];
+    const set = CompressedSet.compress(ids.slice(0, 2));
+
+    expect(set.contains(ids[0])).toBe(true);
+    expect(set.contains(ids[1])).toBe(true);
+    expect(set.contains(ids[2])).toBe(false);
+  });
+
+  it('should handle empty sets', () => {
+    const set = CompressedSet.compress([]);
+    expect(set.getBytes().length).toBe(0);
+    expect(Array.from(set)).toEqual([]);
+    expect(set.toString()).toBe('[]');
+  });
+
+  it('should throw on truncated content', () => {
+    const bytes = CompressedSet.compress([KSUID.new()]).getBytes();
+    const set = CompressedSet.fromBytes(bytes.slice(0, 10));
+    expect(() => Array.from(set)).toThrowError('KSUID set appears to be corrupted');
+  });
+
+  it('should throw on a zero-length range', () => {
+    const bytes = new Uint8Array(1 + 20 + 2);
+    // Raw KSUID followed by a PAYLOAD_RANGE entry with a 1 byte varint of 0
+    bytes.set(KSUID.Max.getBytes(), 1);
+    bytes[21] = 0xC1;
+    bytes[22] = 0;
+    const set = CompressedSet.fromBytes(bytes);
+    expect(() => Array.from(set)).toThrowError('KSUID set appears to be corrupted');
+  });
+});
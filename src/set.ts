@@ -0,0 +1,324 @@
+import { BYTE_LENGTH, PAYLOAD_BYTE_LENGTH } from './constants';
+import { KSUID } from './ksuid';
+import { Uint128, uint128Payload } from './uint128';
+import { KSUIDError } from './errors';
+
+// Tags stored in the two high bits of every entry header byte.
+// The six low bits hold the byte length of the varint that follows.
+const RAW_KSUID = 0;
+const TIME_DELTA = 1 << 6;
+const PAYLOAD_DELTA = 1 << 7;
+const PAYLOAD_RANGE = (1 << 6) | (1 << 7);
+const TAG_MASK = RAW_KSUID | TIME_DELTA | PAYLOAD_DELTA | PAYLOAD_RANGE;
+
+/**
+ * CompressedSet is an immutable set of KSUIDs stored in a compact binary form.
+ *
+ * The encoding is the same as the one used by the reference Go implementation
+ * so sets can be exchanged between the two:
+ * - the first KSUID is written raw
+ * - KSUIDs with a different timestamp are written as a timestamp delta + payload
+ * - KSUIDs with the same timestamp are written as a payload delta
+ * - runs of consecutive payloads are written as a single range length
+ */
+export class CompressedSet implements Iterable<KSUID> {
+  private readonly bytes: Uint8Array;
+
+  /**
+   * Create a CompressedSet from its binary representation
+   */
+  constructor(bytes?: Uint8Array) {
+    this.bytes = bytes ? new Uint8Array(bytes) : new Uint8Array(0);
+  }
+
+  /**
+   * Get the binary representation of the set
+   */
+  public getBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  /**
+   * Check if the set contains the given KSUID
+   */
+  public contains(id: KSUID): boolean {
+    for (const member of this) {
+      const cmp = member.compare(id);
+      if (cmp === 0) {
+        return true;
+      }
+      // Members are sorted, so we can stop as soon as we went past the id
+      if (cmp > 0) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Iterate over the KSUIDs of the set in ascending order
+   */
+  public [Symbol.iterator](): Iterator<KSUID> {
+    return new CompressedSetIterator(this.bytes);
+  }
+
+  /**
+   * String representation listing all KSUIDs of the set
+   */
+  public toString(): string {
+    return `[${Array.from(this, id => `"${id.toString()}"`).join(', ')}]`;
+  }
+
+  /**
+   * Create a CompressedSet from a list of KSUIDs
+   * The list does not need to be sorted and may contain duplicates
+   */
+  public static compress(ids: KSUID[]): CompressedSet {
+    return new CompressedSet(compress(ids));
+  }
+
+  /**
+   * Create a CompressedSet from its binary representation
+   */
+  public static fromBytes(bytes: Uint8Array): CompressedSet {
+    return new CompressedSet(bytes);
+  }
+}
+
+/**
+ * Iterator decoding the entries of a compressed set one at a time
+ */
+class CompressedSetIterator implements Iterator<KSUID> {
+  private offset: number = 0;
+  private seqLength: number = 0;
+  private timestamp: number = 0;
+  private lastValue: Uint128 = Uint128.ZERO;
+
+  constructor(private readonly content: Uint8Array) {}
+
+  public next(): IteratorResult<KSUID> {
+    if (this.seqLength !== 0) {
+      this.lastValue = this.lastValue.increment();
+      this.seqLength--;
+      return { done: false, value: new KSUID(this.lastValue.toKSUID(this.timestamp)) };
+    }
+
+    if (this.offset === this.content.length) {
+      return { done: true, value: undefined };
+    }
+
+    const b = this.content[this.offset++];
+    const tag = b & TAG_MASK;
+    const cnt = b & ~TAG_MASK;
+
+    switch (tag) {
+      case RAW_KSUID: {
+        const bytes = this.read(BYTE_LENGTH);
+        const id = new KSUID(bytes);
+        this.timestamp = id.getTimestamp();
+        this.lastValue = uint128Payload(bytes);
+        return { done: false, value: id };
+      }
+
+      case TIME_DELTA: {
+        this.timestamp = (this.timestamp + varint(this.read(cnt))) >>> 0;
+        this.lastValue = Uint128.fromPayload(this.read(PAYLOAD_BYTE_LENGTH));
+        break;
+      }
+
+      case PAYLOAD_DELTA: {
+        if (cnt > PAYLOAD_BYTE_LENGTH) {
+          throw new KSUIDError('KSUID set appears to be corrupted');
+        }
+        this.lastValue = this.lastValue.add(varint128(this.read(cnt)));
+        break;
+      }
+
+      default: { // PAYLOAD_RANGE
+        const length = varint(this.read(cnt));
+        if (length === 0) {
+          throw new KSUIDError('KSUID set appears to be corrupted');
+        }
+        this.seqLength = length - 1;
+        this.lastValue = this.lastValue.increment();
+        break;
+      }
+    }
+
+    return { done: false, value: new KSUID(this.lastValue.toKSUID(this.timestamp)) };
+  }
+
+  /**
+   * Read the next n bytes of the set content
+   */
+  private read(n: number): Uint8Array {
+    const end = this.offset + n;
+    if (end > this.content.length) {
+      throw new KSUIDError('KSUID set appears to be corrupted');
+    }
+    const bytes = this.content.slice(this.offset, end);
+    this.offset = end;
+    return bytes;
+  }
+}
+
+/**
+ * Encode a list of KSUIDs into the compressed set binary format
+ */
+function compress(ids: KSUID[]): Uint8Array {
+  const set: number[] = [];
+
+  if (ids.length !== 0) {
+    const sorted = [...ids];
+    if (!KSUID.isSorted(sorted)) {
+      KSUID.sort(sorted);
+    }
+
+    // The first KSUID is always written to the set, this is the starting
+    // point for all deltas.
+    set.push(RAW_KSUID);
+    pushBytes(set, sorted[0].getBytes());
+
+    let timestamp = sorted[0].getTimestamp();
+    let lastKSUID = sorted[0];
+    let lastValue = uint128Payload(sorted[0].getBytes());
+
+    for (let i = 1; i < sorted.length; i++) {
+      let id = sorted[i];
+
+      if (id.compare(lastKSUID) === 0) {
+        continue;
+      }
+
+      const t = id.getTimestamp();
+      let v = uint128Payload(id.getBytes());
+
+      if (t !== timestamp) {
+        const delta = bigEndian(t - timestamp, 4);
+        const n = varintLength(delta);
+
+        set.push(TIME_DELTA | n);
+        pushBytes(set, delta.subarray(delta.length - n));
+        pushBytes(set, id.getPayload());
+
+        timestamp = t;
+      } else {
+        const delta = v.subtract(lastValue);
+
+        if (!delta.equals(Uint128.ONE)) {
+          const bytes = delta.toBytes();
+          const n = varintLength(bytes);
+
+          set.push(PAYLOAD_DELTA | n);
+          pushBytes(set, bytes.subarray(bytes.length - n));
+        } else {
+          const { length, count } = rangeLength(sorted, i + 1, t, id, v);
+          const m = bigEndian(length + 1, 8);
+          const n = varintLength(m);
+
+          set.push(PAYLOAD_RANGE | n);
+          pushBytes(set, m.subarray(m.length - n));
+
+          i += count;
+          id = sorted[i];
+          v = uint128Payload(id.getBytes());
+        }
+      }
+
+      lastKSUID = id;
+      lastValue = v;
+    }
+  }
+
+  return new Uint8Array(set);
+}
+
+/**
+ * Count the KSUIDs following `start` that extend a run of consecutive payloads
+ * Returns the number of distinct KSUIDs in the run and the number of entries consumed
+ */
+function rangeLength(
+  ids: KSUID[],
+  start: number,
+  timestamp: number,
+  lastKSUID: KSUID,
+  lastValue: Uint128
+): { length: number, count: number } {
+  let length = 0;
+
+  for (let i = start; i < ids.length; i++) {
+    const id = ids[i];
+
+    if (id.compare(lastKSUID) === 0) {
+      continue;
+    }
+
+    if (id.getTimestamp() !== timestamp) {
+      return { length, count: i - start };
+    }
+
+    const v = uint128Payload(id.getBytes());
+
+    if (!v.subtract(lastValue).equals(Uint128.ONE)) {
+      return { length, count: i - start };
+    }
+
+    lastKSUID = id;
+    lastValue = v;
+    length++;
+  }
+
+  return { length, count: ids.length - start };
+}
+
+/**
+ * Push all bytes of src at the end of dst
+ */
+function pushBytes(dst: number[], src: Uint8Array): void {
+  for (let i = 0; i < src.length; i++) {
+    dst.push(src[i]);
+  }
+}
+
+/**
+ * Big-endian representation of a non-negative integer on the given number of bytes
+ */
+function bigEndian(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+/**
+ * Number of bytes needed to hold a big-endian value once leading zeros are dropped
+ */
+function varintLength(bytes: Uint8Array): number {
+  let i = 0;
+  while (i < bytes.length && bytes[i] === 0) {
+    i++;
+  }
+  return bytes.length - i;
+}
+
+/**
+ * Decode a big-endian varint of up to 6 bytes into a number
+ */
+function varint(bytes: Uint8Array): number {
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value = value * 256 + bytes[i];
+  }
+  return value;
+}
+
+/**
+ * Decode a big-endian varint of up to 16 bytes into a Uint128
+ */
+function varint128(bytes: Uint8Array): Uint128 {
+  const padded = new Uint8Array(PAYLOAD_BYTE_LENGTH);
+  padded.set(bytes, PAYLOAD_BYTE_LENGTH - bytes.length);
+  return Uint128.fromPayload(padded);
+}
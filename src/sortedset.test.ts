@@ -0,0 +1,106 @@
+import { KSUID } from './ksuid';
+import { KSUIDSortedSet } from './sortedset';
+import { SeededRandomSource } from './random';
+import { BYTE_LENGTH } from './constants';
+
+describe('KSUIDSortedSet', () => {
+  const random = new SeededRandomSource(11);
+  const ids = Array.from({ length: 200 }, (_, i) => KSUID.randomWithTime(new Date(Date.UTC(2024, 0, 1, 0, 0, i % 50)), { random }));
+  const sorted = [...ids];
+  KSUID.sort(sorted);
+
+  /**
+   * Base62 strings of a list of KSUIDs, for readable comparisons
+   */
+  function strings(list: Iterable<KSUID>): string[] {
+    return Array.from(list, id => id.toString());
+  }
+
+  it('should keep members sorted and unique', () => {
+    const set = new KSUIDSortedSet([...ids, ...ids.slice(0, 20)]);
+
+    expect(set.size).toBe(200);
+    expect(strings(set)).toEqual(strings(sorted));
+    expect(set.toBytes()).toHaveLength(200 * BYTE_LENGTH);
+    expect(set.at(0).equals(sorted[0])).toBe(true);
+    expect(() => set.at(200)).toThrowError('Index 200 is out of the set bounds');
+  });
+
+  it('should insert, find and delete members', () => {
+    const set = new KSUIDSortedSet();
+
+    for (const id of ids) {
+      expect(set.insert(id)).toBe(true);
+    }
+    expect(set.insert(ids[5])).toBe(false);
+    expect(strings(set)).toEqual(strings(sorted));
+
+    expect(set.has(ids[7])).toBe(true);
+    expect(set.has(KSUID.new())).toBe(false);
+
+    expect(set.delete(ids[7])).toBe(true);
+    expect(set.delete(ids[7])).toBe(false);
+    expect(set.has(ids[7])).toBe(false);
+    expect(set.size).toBe(199);
+    expect(strings(set)).toEqual(strings(sorted.filter(id => !id.equals(ids[7]))));
+
+    expect(set.insert(KSUID.Max)).toBe(true);
+    expect(set.insert(KSUID.Nil)).toBe(true);
+    expect(set.at(0).equals(KSUID.Nil)).toBe(true);
+    expect(set.at(set.size - 1).equals(KSUID.Max)).toBe(true);
+  });
+
+  it('should find floor and ceiling members', () => {
+    const set = new KSUIDSortedSet(ids);
+    const between = sorted[10].next();
+
+    expect(set.floor(sorted[10])!.equals(sorted[10])).toBe(true);
+    expect(set.ceiling(sorted[10])!.equals(sorted[10])).toBe(true);
+    expect(set.floor(between)!.equals(sorted[10])).toBe(true);
+    expect(set.ceiling(between)!.equals(sorted[11])).toBe(true);
+
+    expect(set.floor(KSUID.Nil)).toBeNull();
+    expect(set.ceiling(KSUID.Nil)!.equals(sorted[0])).toBe(true);
+    expect(set.floor(KSUID.Max)!.equals(sorted[199])).toBe(true);
+    expect(set.ceiling(KSUID.Max)).toBeNull();
+  });
+
+  it('should select members by time range', () => {
+    const set = new KSUIDSortedSet(ids);
+    const start = new Date(Date.UTC(2024, 0, 1, 0, 0, 10));
+    const end = new Date(Date.UTC(2024, 0, 1, 0, 0, 19));
+
+    const expected = sorted.filter(id => id.getTime() >= start && id.getTime() <= end);
+    expect(expected).toHaveLength(40);
+    expect(strings(set.rangeByTime(start, end))).toEqual(strings(expected));
+
+    expect(strings(set.range(KSUID.Nil, KSUID.Max))).toEqual(strings(sorted));
+    expect(set.range(sorted[3], sorted[3])).toHaveLength(1);
+    expect(set.rangeByTime(new Date('2030-01-01'), new Date('2030-12-31'))).toEqual([]);
+  });
+
+  it('should merge two sets', () => {
+    const a = new KSUIDSortedSet(ids.slice(0, 120));
+    const b = new KSUIDSortedSet(ids.slice(80));
+    const merged = a.merge(b);
+
+    expect(merged.size).toBe(200);
+    expect(strings(merged)).toEqual(strings(sorted));
+    expect(a.size).toBe(120);
+
+    // The merged set owns its storage
+    merged.insert(KSUID.Max);
+    expect(a.has(KSUID.Max)).toBe(false);
+    expect(strings(new KSUIDSortedSet().merge(a))).toEqual(strings(a));
+  });
+
+  it('should be created from packed KSUIDs', () => {
+    const packed = KSUID.generate(100, { random });
+    const set = KSUIDSortedSet.fromBytes(new Uint8Array([...packed, ...packed.subarray(0, 40)]));
+
+    expect(set.size).toBe(100);
+    expect(KSUID.isSorted(Array.from(set))).toBe(true);
+    expect(KSUIDSortedSet.fromBytes(set.toBytes()).toBytes()).toEqual(set.toBytes());
+    expect(() => KSUIDSortedSet.fromBytes(new Uint8Array(21))).toThrowError('Packed KSUIDs must be a multiple of 20 bytes');
+  });
+});
@@ -0,0 +1,258 @@
+import { BYTE_LENGTH } from './constants';
+import { KSUID, bytesOf, compareBytes } from './ksuid';
+import { KSUIDError } from './errors';
+
+const INITIAL_CAPACITY = 16;
+
+/**
+ * KSUIDSortedSet is a mutable, ordered set of KSUIDs.
+ *
+ * Members are stored back to back in a single packed Uint8Array of 20 byte
+ * entries kept in ascending order, so millions of IDs take 20 bytes each with
+ * no per-ID object. Lookups are binary searches comparing the packed bytes in
+ * place; inserts and deletes shift the entries after the position.
+ */
+export class KSUIDSortedSet implements Iterable<KSUID> {
+  private bytes: Uint8Array;
+  private count: number = 0;
+
+  /**
+   * Create a set holding the given KSUIDs, in any order and possibly with duplicates
+   */
+  constructor(ids: Iterable<KSUID> = []) {
+    const sorted = Array.from(ids);
+    KSUID.sort(sorted);
+
+    this.bytes = new Uint8Array(Math.max(sorted.length, INITIAL_CAPACITY) * BYTE_LENGTH);
+    for (const id of sorted) {
+      const bytes = bytesOf(id);
+      if (this.count === 0 || compareBytes(this.bytes, (this.count - 1) * BYTE_LENGTH, bytes, 0) !== 0) {
+        this.bytes.set(bytes, this.count * BYTE_LENGTH);
+        this.count++;
+      }
+    }
+  }
+
+  /**
+   * Number of KSUIDs in the set
+   */
+  public get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Check if the set contains the given KSUID
+   */
+  public has(id: KSUID): boolean {
+    const key = bytesOf(id);
+    const index = this.lowerBound(key);
+    return index < this.count && compareBytes(this.bytes, index * BYTE_LENGTH, key, 0) === 0;
+  }
+
+  /**
+   * Add a KSUID to the set
+   * Returns false if it was already a member
+   */
+  public insert(id: KSUID): boolean {
+    const key = bytesOf(id);
+    const index = this.lowerBound(key);
+    if (index < this.count && compareBytes(this.bytes, index * BYTE_LENGTH, key, 0) === 0) {
+      return false;
+    }
+
+    if ((this.count + 1) * BYTE_LENGTH > this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes.subarray(0, this.count * BYTE_LENGTH));
+      this.bytes = grown;
+    }
+
+    const offset = index * BYTE_LENGTH;
+    this.bytes.copyWithin(offset + BYTE_LENGTH, offset, this.count * BYTE_LENGTH);
+    this.bytes.set(key, offset);
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Remove a KSUID from the set
+   * Returns false if it was not a member
+   */
+  public delete(id: KSUID): boolean {
+    const key = bytesOf(id);
+    const index = this.lowerBound(key);
+    if (index >= this.count || compareBytes(this.bytes, index * BYTE_LENGTH, key, 0) !== 0) {
+      return false;
+    }
+
+    const offset = index * BYTE_LENGTH;
+    this.bytes.copyWithin(offset, offset + BYTE_LENGTH, this.count * BYTE_LENGTH);
+    this.count--;
+    return true;
+  }
+
+  /**
+   * Greatest member lower than or equal to the given KSUID, or null
+   */
+  public floor(id: KSUID): KSUID | null {
+    const key = bytesOf(id);
+    const index = this.lowerBound(key);
+    if (index < this.count && compareBytes(this.bytes, index * BYTE_LENGTH, key, 0) === 0) {
+      return this.at(index);
+    }
+    return index > 0 ? this.at(index - 1) : null;
+  }
+
+  /**
+   * Lowest member greater than or equal to the given KSUID, or null
+   */
+  public ceiling(id: KSUID): KSUID | null {
+    const index = this.lowerBound(bytesOf(id));
+    return index < this.count ? this.at(index) : null;
+  }
+
+  /**
+   * Members between two KSUIDs, inclusive, in ascending order
+   */
+  public range(min: KSUID, max: KSUID): KSUID[] {
+    const start = this.lowerBound(bytesOf(min));
+    const end = this.upperBound(bytesOf(max));
+    const ids: KSUID[] = [];
+    for (let i = start; i < end; i++) {
+      ids.push(this.at(i));
+    }
+    return ids;
+  }
+
+  /**
+   * Members generated between two dates, inclusive, in ascending order
+   */
+  public rangeByTime(start: Date, end: Date): KSUID[] {
+    const { min, max } = KSUID.rangeFor(start, end);
+    return this.range(min, max);
+  }
+
+  /**
+   * New set holding the members of both sets
+   */
+  public merge(other: KSUIDSortedSet): KSUIDSortedSet {
+    const a = this.bytes;
+    const b = other.bytes;
+    const bytes = new Uint8Array(Math.max(this.count + other.count, INITIAL_CAPACITY) * BYTE_LENGTH);
+    let i = 0;
+    let j = 0;
+    let n = 0;
+
+    while (i < this.count || j < other.count) {
+      let cmp: number;
+      if (i >= this.count) {
+        cmp = 1;
+      } else if (j >= other.count) {
+        cmp = -1;
+      } else {
+        cmp = compareBytes(a, i * BYTE_LENGTH, b, j * BYTE_LENGTH);
+      }
+
+      if (cmp <= 0) {
+        bytes.set(a.subarray(i * BYTE_LENGTH, (i + 1) * BYTE_LENGTH), n * BYTE_LENGTH);
+        i++;
+        if (cmp === 0) {
+          j++;
+        }
+      } else {
+        bytes.set(b.subarray(j * BYTE_LENGTH, (j + 1) * BYTE_LENGTH), n * BYTE_LENGTH);
+        j++;
+      }
+      n++;
+    }
+
+    const merged = new KSUIDSortedSet();
+    merged.bytes = bytes;
+    merged.count = n;
+    return merged;
+  }
+
+  /**
+   * Member at the given position in ascending order
+   */
+  public at(index: number): KSUID {
+    if (!Number.isInteger(index) || index < 0 || index >= this.count) {
+      throw new KSUIDError(`Index ${index} is out of the set bounds`);
+    }
+    return new KSUID(this.bytes.subarray(index * BYTE_LENGTH, (index + 1) * BYTE_LENGTH));
+  }
+
+  /**
+   * Iterate over the KSUIDs of the set in ascending order
+   */
+  public *[Symbol.iterator](): Iterator<KSUID> {
+    for (let i = 0; i < this.count; i++) {
+      yield this.at(i);
+    }
+  }
+
+  /**
+   * Packed copy of the members, `size * BYTE_LENGTH` bytes in ascending order
+   */
+  public toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.count * BYTE_LENGTH);
+  }
+
+  /**
+   * Create a set from packed KSUIDs, e.g. from `KSUID.generate` or `toBytes`
+   * The KSUIDs do not need to be sorted and may contain duplicates
+   */
+  public static fromBytes(bytes: Uint8Array): KSUIDSortedSet {
+    if (bytes.length % BYTE_LENGTH !== 0) {
+      throw new KSUIDError(`Packed KSUIDs must be a multiple of ${BYTE_LENGTH} bytes`);
+    }
+
+    const count = bytes.length / BYTE_LENGTH;
+    const order = Array.from({ length: count }, (_, i) => i);
+    order.sort((x, y) => compareBytes(bytes, x * BYTE_LENGTH, bytes, y * BYTE_LENGTH));
+
+    const set = new KSUIDSortedSet();
+    set.bytes = new Uint8Array(Math.max(count, INITIAL_CAPACITY) * BYTE_LENGTH);
+    for (const i of order) {
+      const offset = i * BYTE_LENGTH;
+      if (set.count === 0 || compareBytes(set.bytes, (set.count - 1) * BYTE_LENGTH, bytes, offset) !== 0) {
+        set.bytes.set(bytes.subarray(offset, offset + BYTE_LENGTH), set.count * BYTE_LENGTH);
+        set.count++;
+      }
+    }
+    return set;
+  }
+
+  /**
+   * Index of the first member greater than or equal to key, or size if there is none
+   */
+  private lowerBound(key: Uint8Array): number {
+    let low = 0;
+    let high = this.count;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareBytes(this.bytes, mid * BYTE_LENGTH, key, 0) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Index of the first member greater than key, or size if there is none
+   */
+  private upperBound(key: Uint8Array): number {
+    let low = 0;
+    let high = this.count;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareBytes(this.bytes, mid * BYTE_LENGTH, key, 0) <= 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,115 @@
+import { KSUID } from './ksuid';
+import { KSUIDError, KSUIDParseError } from './errors';
+import { KSUIDTemplate, formatTime } from './template';
+
+describe('KSUIDTemplate', () => {
+  const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+  const render = (source: string) => new KSUIDTemplate(source).render(id);
+
+  it('should render the fields of the Go CLI', () => {
+    expect(render('{{.String}}')).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(render('{{.Raw}}')).toBe('08581913F971348B516762380E521F2744DAD62E');
+    expect(render('{{.Time}}')).toBe('2018-10-19 23:21:55 +0000 UTC');
+    expect(render('{{.Timestamp}}')).toBe('139991315');
+    expect(render('{{.Payload}}')).toBe('F971348B516762380E521F2744DAD62E');
+    expect(render('id={{ .String }}, t={{.Timestamp}}')).toBe('id=1BoZGMuixPtHRHwvkZxHEkfLxL4, t=139991315');
+    expect(render('{{.}} {{print .}}')).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4 1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(() => render('{{.toString}}')).toThrowError('Can\'t evaluate field toString in the KSUID');
+  });
+
+  it('should call time methods and format functions', () => {
+    expect(render('{{.Time.Format "2006-01-02T15:04:05Z07:00"}}')).toBe('2018-10-19T23:21:55Z');
+    expect(render('{{.Time.Unix}} {{.Time.Year}} {{.Time.Month}} {{.Time.Weekday}}')).toBe('1539991315 2018 October Friday');
+    expect(render('{{(.Time.UTC).Day}}')).toBe('19');
+    expect(render('{{format "RFC1123" .Time}}')).toBe('Fri, 19 Oct 2018 23:21:55 UTC');
+    expect(render('{{.Time | format "Kitchen"}}')).toBe('11:21PM');
+    expect(render('{{.Time | format "2006/01/02"}}')).toBe('2018/10/19');
+  });
+
+  it('should encode bytes', () => {
+    expect(render('{{.Payload | hex}}')).toBe('f971348b516762380e521f2744dad62e');
+    expect(render('{{base64 .Payload}}')).toBe('+XE0i1FnYjgOUh8nRNrWLg==');
+    expect(render('{{base64url .Raw}}')).toBe(id.toString('base64url'));
+    expect(render('{{printf "%x" .Raw}}')).toBe(id.toString('hex'));
+    expect(render('{{len .Payload}} {{len .String}}')).toBe('32 27');
+  });
+
+  it('should evaluate conditionals', () => {
+    const source = '{{if lt .Timestamp 100}}old{{else if eq .Time.Year 2018}}2018{{else}}new{{end}}';
+    expect(render(source)).toBe('2018');
+    expect(new KSUIDTemplate(source).render(KSUID.randomWithTime(new Date('2015-01-01T00:00:00Z')))).toBe('new');
+    expect(render('{{if and .String (not .Timestamp)}}a{{else}}b{{end}}')).toBe('b');
+    expect(render('{{or 0 "" "last"}} {{and 1 0 2}}')).toBe('last 0');
+    expect(render('{{if ne .String "x"}}{{.String}}{{end}}')).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+  });
+
+  it('should handle escapes, comments and whitespace trimming', () => {
+    expect(render('{{"a\\tb\\n\\x41\\u00e9\\""}}')).toBe('a\tb\nAé"');
+    expect(render('{{`raw\\n`}}')).toBe('raw\\n');
+    expect(render('a {{/* comment */}}b')).toBe('a b');
+    expect(render('a  {{- .Timestamp -}}  b')).toBe('a139991315b');
+    expect(render('a \n{{- /* comment */ -}}\n b')).toBe('ab');
+    expect(render('{{html "<a href=\'x\'>"}}')).toBe('&lt;a href=&#39;x&#39;&gt;');
+    expect(render('{{js "it\'s <b>"}}')).toBe('it\\\'s \\u003Cb\\u003E');
+    expect(render('{{urlquery "a b&c"}}')).toBe('a+b%26c');
+  });
+
+  it('should format with printf and print', () => {
+    expect(render('{{printf "%-5s|%05d|%x|%q" "ab" 42 255 "x"}}')).toBe('ab   |00042|ff|"x"');
+    expect(render('{{printf "%s-%d" .String}}')).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4-%!d(MISSING)');
+    expect(render('{{print 1 2 "x" 3}}')).toBe('1 2x3');
+    expect(render('{{.String | upper}} {{lower "AB"}}')).toBe('1BOZGMUIXPTHRHWVKZXHEKFLXL4 ab');
+  });
+
+  it('should report syntax errors with their position', () => {
+    const cases: [string, string, number][] = [
+      ['{{.String', 'Unclosed action', 0],
+      ['x {{nope}}', 'Function "nope" is not defined', 4],
+      ['{{if .String}}x', 'Unclosed {{if}}', 0],
+      ['x{{end}}', 'Unexpected {{end}}', 1],
+      ['{{"\\q"}}', 'Unknown escape sequence "\\q"', 3],
+      ['{{range .}}{{end}}', '{{range}} is not supported', 2],
+      ['{{$x}}', 'Template variables are not supported', 2],
+      ['{{}}', 'Missing value in action', 0]
+    ];
+
+    for (const [source, message, position] of cases) {
+      try {
+        new KSUIDTemplate(source);
+        fail(`expected a parse error for ${source}`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(KSUIDParseError);
+        expect((error as KSUIDParseError).message).toBe(`${message} at position ${position}`);
+        expect((error as KSUIDParseError).position).toBe(position);
+      }
+    }
+  });
+
+  it('should report execution errors', () => {
+    expect(() => render('{{.Nope}}')).toThrowError(new KSUIDError('Can\'t evaluate field Nope in the KSUID'));
+    expect(() => render('{{.Time.Format}}')).toThrowError('Wrong number of arguments for Format: want 1, got 0');
+    expect(() => render('{{.String 1}}')).toThrowError('Can\'t give arguments to field String');
+    expect(() => render('{{lt .String 1}}')).toThrowError('Can\'t compare string 1BoZGMuixPtHRHwvkZxHEkfLxL4 with number 1');
+    expect(() => render('{{format 1 .Time}}')).toThrowError('format layout must be a string');
+    expect(() => render('{{eq .Timestamp}}')).toThrowError(new KSUIDError('missing argument for comparison'));
+    expect(render('{{format "constructor" .Time}}')).toBe('constructor');
+  });
+});
+
+describe('formatTime', () => {
+  const date = new Date('2009-02-03T04:05:06.789Z');
+
+  it('should format Go layout elements', () => {
+    expect(formatTime(date, '2006-01-02 15:04:05')).toBe('2009-02-03 04:05:06');
+    expect(formatTime(date, 'Monday January 2 06 3:4:5 PM')).toBe('Tuesday February 3 09 4:5:6 AM');
+    expect(formatTime(date, 'Mon Jan _2 002 -0700 MST')).toBe('Tue Feb  3 034 +0000 UTC');
+    expect(formatTime(date, '15:04:05.000 .999999 ,00')).toBe('04:05:06.789 .789 ,78');
+    expect(formatTime(new Date('2009-02-03T04:05:06Z'), '05.999|05.000')).toBe('06|06.000');
+    expect(formatTime(date, 'Month Janet')).toBe('Month Janet');
+  });
+
+  it('should pad _2 with a space, except in _2006', () => {
+    expect(formatTime(date, '_2|_2006|__2')).toBe(' 3|_2009| 34');
+    expect(formatTime(new Date('2009-02-13T00:00:00Z'), '_2/_2006')).toBe('13/_2009');
+  });
+});
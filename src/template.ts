@@ -0,0 +1,945 @@
+/// <reference types="node" />
+
+import { KSUID } from './ksuid';
+import { KSUIDError, KSUIDParseError } from './errors';
+
+/**
+ * KSUIDTemplate formats KSUIDs with templates written for the Go `ksuid` CLI,
+ * which executes them with Go's `text/template` package.
+ *
+ * Templates see the same fields as in Go:
+ * - `{{.String}}`: the base62 string
+ * - `{{.Raw}}`: the 20 bytes, as uppercase hex
+ * - `{{.Time}}`: the time, with Go's time methods, e.g. `{{.Time.Format "2006-01-02"}}`
+ * - `{{.Timestamp}}`: the raw timestamp
+ * - `{{.Payload}}`: the 16 payload bytes, as uppercase hex
+ *
+ * The supported subset of `text/template` covers pipelines, `if`/`else if`/`else`,
+ * comments, `{{-`/`-}}` whitespace trimming, Go string literals with their escapes
+ * and the builtin functions (`and`, `or`, `not`, `eq`, `ne`, `lt`, `le`, `gt`, `ge`,
+ * `len`, `print`, `printf`, `println`, `html`, `js`, `urlquery`). On top of those:
+ * - `hex`, `base64`, `base64url`: encode bytes, e.g. `{{.Payload | base64}}`
+ * - `format`: format a time with a Go layout or a layout name, e.g. `{{format "RFC3339" .Time}}`
+ * - `upper`, `lower`: change the case of a string
+ *
+ * Times are always formatted in UTC.
+ */
+export class KSUIDTemplate {
+  /**
+   * Source of the template
+   */
+  public readonly source: string;
+
+  private readonly nodes: TemplateNode[];
+
+  /**
+   * Parse a template
+   * Throws a KSUIDParseError pointing at the offending position of the source
+   */
+  constructor(source: string) {
+    this.source = source;
+    this.nodes = new TemplateParser(source).parse();
+  }
+
+  /**
+   * Execute the template for a KSUID
+   */
+  public render(id: KSUID): string {
+    const data: Record<string, unknown> = {
+      String: id.toString(),
+      Raw: new TemplateBytes(id.getBytes()),
+      Time: new TemplateTime(id.getTime()),
+      Timestamp: id.getTimestamp(),
+      Payload: new TemplateBytes(id.getPayload()),
+      // Printed by a bare {{.}}, not reachable as a field since it isn't capitalized
+      toString: () => id.toString()
+    };
+    return executeNodes(this.nodes, data);
+  }
+}
+
+/**
+ * Format a date in UTC with a Go time layout, e.g. "2006-01-02T15:04:05Z07:00"
+ */
+export function formatTime(date: Date, layout: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < layout.length) {
+    const fraction = /^[.,](0+|9+)(?![0-9])/.exec(layout.slice(i));
+    if (fraction) {
+      const digits = (date.getUTCMilliseconds() * 1e6).toString().padStart(9, '0').slice(0, fraction[1].length);
+      if (fraction[1][0] === '0') {
+        result += layout[i] + digits;
+      } else if (/[1-9]/.test(digits)) {
+        result += layout[i] + digits.replace(/0+$/, '');
+      }
+      i += fraction[0].length;
+      continue;
+    }
+
+    // Like Go, "Jan" and "Mon" followed by a lowercase letter are literal, and "_2006" is a literal _ then the year
+    const element = LAYOUT_ELEMENTS.find(([name]) => layout.startsWith(name, i) &&
+      !((name === 'Jan' || name === 'Mon') && /^[a-z]/.test(layout.slice(i + 3))) &&
+      !(name === '_2' && layout.startsWith('006', i + 2)));
+    if (element) {
+      result += element[1](date);
+      i += element[0].length;
+    } else {
+      result += layout[i];
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Bytes of a KSUID, printed as uppercase hex like the Go CLI
+ */
+class TemplateBytes {
+  constructor(public readonly bytes: Uint8Array) {}
+
+  public toString(): string {
+    return Buffer.from(this.bytes).toString('hex').toUpperCase();
+  }
+}
+
+/**
+ * Time of a KSUID, with the methods of Go's time.Time that make sense in a template
+ */
+class TemplateTime {
+  constructor(public readonly date: Date) {}
+
+  public Format(layout: string): string {
+    if (typeof layout !== 'string') {
+      throw new KSUIDError('Time layout must be a string');
+    }
+    return formatTime(this.date, layout);
+  }
+
+  public String(): string {
+    return formatTime(this.date, '2006-01-02 15:04:05.999999999 -0700 MST');
+  }
+
+  public UTC(): TemplateTime {
+    return this;
+  }
+
+  public Unix(): number {
+    return Math.floor(this.date.getTime() / 1000);
+  }
+
+  public UnixMilli(): number {
+    return this.date.getTime();
+  }
+
+  public Year(): number {
+    return this.date.getUTCFullYear();
+  }
+
+  public Month(): string {
+    return MONTHS[this.date.getUTCMonth()];
+  }
+
+  public Day(): number {
+    return this.date.getUTCDate();
+  }
+
+  public Weekday(): string {
+    return DAYS[this.date.getUTCDay()];
+  }
+
+  public YearDay(): number {
+    return yearDay(this.date);
+  }
+
+  public Hour(): number {
+    return this.date.getUTCHours();
+  }
+
+  public Minute(): number {
+    return this.date.getUTCMinutes();
+  }
+
+  public Second(): number {
+    return this.date.getUTCSeconds();
+  }
+
+  public toString(): string {
+    return this.String();
+  }
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Elements of Go time layouts, longest first where they share a prefix
+ */
+const LAYOUT_ELEMENTS: [string, (date: Date) => string][] = [
+  ['January', date => MONTHS[date.getUTCMonth()]],
+  ['Jan', date => MONTHS[date.getUTCMonth()].slice(0, 3)],
+  ['Monday', date => DAYS[date.getUTCDay()]],
+  ['Mon', date => DAYS[date.getUTCDay()].slice(0, 3)],
+  ['MST', () => 'UTC'],
+  ['2006', date => pad(date.getUTCFullYear(), 4, '0')],
+  ['-07:00:00', () => '+00:00:00'],
+  ['-0700', () => '+0000'],
+  ['-07:00', () => '+00:00'],
+  ['-07', () => '+00'],
+  ['Z07:00:00', () => 'Z'],
+  ['Z0700', () => 'Z'],
+  ['Z07:00', () => 'Z'],
+  ['Z07', () => 'Z'],
+  ['002', date => pad(yearDay(date), 3, '0')],
+  ['__2', date => pad(yearDay(date), 3, ' ')],
+  ['_2', date => pad(date.getUTCDate(), 2, ' ')],
+  ['01', date => pad(date.getUTCMonth() + 1, 2, '0')],
+  ['02', date => pad(date.getUTCDate(), 2, '0')],
+  ['03', date => pad(date.getUTCHours() % 12 || 12, 2, '0')],
+  ['04', date => pad(date.getUTCMinutes(), 2, '0')],
+  ['05', date => pad(date.getUTCSeconds(), 2, '0')],
+  ['06', date => pad(date.getUTCFullYear() % 100, 2, '0')],
+  ['15', date => pad(date.getUTCHours(), 2, '0')],
+  ['PM', date => (date.getUTCHours() < 12 ? 'AM' : 'PM')],
+  ['pm', date => (date.getUTCHours() < 12 ? 'am' : 'pm')],
+  ['1', date => String(date.getUTCMonth() + 1)],
+  ['2', date => String(date.getUTCDate())],
+  ['3', date => String(date.getUTCHours() % 12 || 12)],
+  ['4', date => String(date.getUTCMinutes())],
+  ['5', date => String(date.getUTCSeconds())]
+];
+
+/**
+ * Layout constants of Go's time package, usable by name with `format`
+ */
+const NAMED_LAYOUTS: Record<string, string> = {
+  Layout: '01/02 03:04:05PM \'06 -0700',
+  ANSIC: 'Mon Jan _2 15:04:05 2006',
+  UnixDate: 'Mon Jan _2 15:04:05 MST 2006',
+  RubyDate: 'Mon Jan 02 15:04:05 -0700 2006',
+  RFC822: '02 Jan 06 15:04 MST',
+  RFC822Z: '02 Jan 06 15:04 -0700',
+  RFC850: 'Monday, 02-Jan-06 15:04:05 MST',
+  RFC1123: 'Mon, 02 Jan 2006 15:04:05 MST',
+  RFC1123Z: 'Mon, 02 Jan 2006 15:04:05 -0700',
+  RFC3339: '2006-01-02T15:04:05Z07:00',
+  RFC3339Nano: '2006-01-02T15:04:05.999999999Z07:00',
+  Kitchen: '3:04PM',
+  Stamp: 'Jan _2 15:04:05',
+  StampMilli: 'Jan _2 15:04:05.000',
+  DateTime: '2006-01-02 15:04:05',
+  DateOnly: '2006-01-02',
+  TimeOnly: '15:04:05'
+};
+
+/**
+ * Template functions, called with the evaluated arguments
+ * Functions in VARIADIC_FUNCTIONS take at least as many arguments as they declare,
+ * the others exactly as many
+ */
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  and: (first: unknown, ...rest: unknown[]) => firstOrLast([first, ...rest], arg => !truthy(arg)),
+  or: (first: unknown, ...rest: unknown[]) => firstOrLast([first, ...rest], truthy),
+  not: (value: unknown) => !truthy(value),
+  eq: (first: unknown, ...rest: unknown[]) => {
+    if (rest.length === 0) {
+      throw new KSUIDError('missing argument for comparison');
+    }
+    return rest.some(arg => compare(first, arg) === 0);
+  },
+  ne: (a: unknown, b: unknown) => compare(a, b) !== 0,
+  lt: (a: unknown, b: unknown) => compare(a, b) < 0,
+  le: (a: unknown, b: unknown) => compare(a, b) <= 0,
+  gt: (a: unknown, b: unknown) => compare(a, b) > 0,
+  ge: (a: unknown, b: unknown) => compare(a, b) >= 0,
+  len: (value: unknown) => {
+    if (typeof value !== 'string' && !(value instanceof TemplateBytes)) {
+      throw new KSUIDError(`Can't take the length of ${describe(value)}`);
+    }
+    return value.toString().length;
+  },
+  print: (...args: unknown[]) => sprint(args),
+  println: (...args: unknown[]) => args.map(print).join(' ') + '\n',
+  printf: (format: unknown, ...args: unknown[]) => {
+    if (typeof format !== 'string') {
+      throw new KSUIDError('printf format must be a string');
+    }
+    return sprintf(format, args);
+  },
+  html: (...args: unknown[]) => sprint(args).replace(/[&'<>"\0]/g, c => HTML_ESCAPES[c]),
+  js: (...args: unknown[]) => sprint(args).replace(/[\\'"<>&=\x00-\x1F\x7F]/g, escapeJS),
+  urlquery: (...args: unknown[]) => encodeURIComponent(sprint(args))
+    .replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase())
+    .replace(/%20/g, '+'),
+  hex: (value: unknown) => Buffer.from(bytesOf(value)).toString('hex'),
+  base64: (value: unknown) => Buffer.from(bytesOf(value)).toString('base64'),
+  base64url: (value: unknown) => Buffer.from(bytesOf(value)).toString('base64url'),
+  format: (layout: unknown, time: unknown) => {
+    if (typeof layout !== 'string') {
+      throw new KSUIDError('format layout must be a string');
+    }
+    if (!(time instanceof TemplateTime)) {
+      throw new KSUIDError(`Can't format ${describe(time)} as a time`);
+    }
+    return time.Format(Object.prototype.hasOwnProperty.call(NAMED_LAYOUTS, layout) ? NAMED_LAYOUTS[layout] : layout);
+  },
+  upper: (value: unknown) => print(value).toUpperCase(),
+  lower: (value: unknown) => print(value).toLowerCase()
+};
+
+const VARIADIC_FUNCTIONS = new Set(['and', 'or', 'eq', 'print', 'println', 'printf', 'html', 'js', 'urlquery']);
+
+/**
+ * Keywords of Go templates this implementation doesn't support
+ */
+const UNSUPPORTED_KEYWORDS = new Set(['range', 'with', 'define', 'template', 'block', 'break', 'continue']);
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '\'': '&#39;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&#34;',
+  '\0': '\uFFFD'
+};
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'action'; pipeline: Pipeline }
+  | { type: 'if'; branches: { condition: Pipeline; body: TemplateNode[] }[]; otherwise: TemplateNode[] };
+
+type Pipeline = Command[];
+
+interface Command {
+  operands: Operand[];
+  position: number;
+}
+
+type Operand =
+  | { type: 'literal'; value: unknown }
+  | { type: 'function'; name: string; position: number }
+  | { type: 'field'; receiver: Pipeline | null; names: string[]; position: number }
+  | { type: 'pipeline'; pipeline: Pipeline };
+
+type Token =
+  | { type: 'field'; names: string[]; position: number; end: number }
+  | { type: 'identifier'; name: string; position: number; end: number }
+  | { type: 'literal'; value: unknown; position: number; end: number }
+  | { type: '|' | '(' | ')'; position: number; end: number };
+
+/**
+ * An action of the template, `{{...}}`, split into tokens
+ */
+interface Action {
+  tokens: Token[];
+  position: number;
+}
+
+/**
+ * Recursive descent parser of templates
+ */
+class TemplateParser {
+  private items: (string | Action)[] = [];
+  private index = 0;
+  private tokens: Token[] = [];
+  private token = 0;
+
+  constructor(private readonly source: string) {}
+
+  /**
+   * Parse the whole template
+   */
+  public parse(): TemplateNode[] {
+    this.items = this.scan();
+    const { nodes, end } = this.parseList();
+    if (end) {
+      throw this.error(`Unexpected {{${keyword(end)}}}`, end.position);
+    }
+    return nodes;
+  }
+
+  /**
+   * Split the source into text and actions, applying whitespace trimming
+   */
+  private scan(): (string | Action)[] {
+    const source = this.source;
+    const items: (string | Action)[] = [];
+    let text = '';
+    let i = 0;
+
+    while (i < source.length) {
+      const start = source.indexOf('{{', i);
+      if (start === -1) {
+        text += source.slice(i);
+        break;
+      }
+      text += source.slice(i, start);
+
+      let p = start + 2;
+      let trim: boolean;
+      if (source[p] === '-' && isSpace(source[p + 1])) {
+        text = text.replace(/[ \t\r\n]+$/, '');
+        p++;
+      }
+      if (text !== '') {
+        items.push(text);
+        text = '';
+      }
+
+      // Comments follow the delimiter directly, or the trim marker and a space
+      const comment = p === start + 2 ? p : p + 1;
+      if (source.startsWith('/*', comment)) {
+        const close = source.indexOf('*/', comment + 2);
+        if (close === -1) {
+          throw this.error('Unclosed comment', start);
+        }
+        const end = /^( -)?}}/.exec(source.slice(close + 2));
+        if (!end) {
+          throw this.error('Comment ends before the end of the action', close);
+        }
+        i = close + 2 + end[0].length;
+        trim = end[1] !== undefined;
+      } else {
+        const action = this.tokenize(p, start);
+        items.push({ tokens: action.tokens, position: start });
+        i = action.end;
+        trim = action.trim;
+      }
+      if (trim) {
+        i += /^[ \t\r\n]*/.exec(source.slice(i))![0].length;
+      }
+    }
+
+    if (text !== '') {
+      items.push(text);
+    }
+    return items;
+  }
+
+  /**
+   * Split an action starting at position p into tokens
+   * Returns the tokens, the position after the action and whether it trims the following text
+   */
+  private tokenize(p: number, start: number): { tokens: Token[]; end: number; trim: boolean } {
+    const source = this.source;
+    const tokens: Token[] = [];
+
+    for (;;) {
+      while (isSpace(source[p])) {
+        p++;
+      }
+      if (p >= source.length) {
+        throw this.error('Unclosed action', start);
+      }
+      if (source.startsWith('}}', p)) {
+        return { tokens, end: p + 2, trim: false };
+      }
+      if (source.startsWith('-}}', p) && isSpace(source[p - 1])) {
+        return { tokens, end: p + 3, trim: true };
+      }
+
+      const c = source[p];
+      const rest = source.slice(p);
+      let match: RegExpExecArray | null;
+
+      if (c === '|' || c === '(' || c === ')') {
+        tokens.push({ type: c, position: p, end: p + 1 });
+        p++;
+      } else if (c === '"') {
+        const end = findStringEnd(source, p);
+        if (end === -1) {
+          throw this.error('Unterminated string', p);
+        }
+        tokens.push({ type: 'literal', value: this.unquote(source.slice(p + 1, end), p + 1), position: p, end: end + 1 });
+        p = end + 1;
+      } else if (c === '`') {
+        const end = source.indexOf('`', p + 1);
+        if (end === -1) {
+          throw this.error('Unterminated raw string', p);
+        }
+        tokens.push({ type: 'literal', value: source.slice(p + 1, end), position: p, end: end + 1 });
+        p = end + 1;
+      } else if ((match = /^(\.[A-Za-z_][A-Za-z0-9_]*)+/.exec(rest)) || (match = /^\.(?![0-9])/.exec(rest))) {
+        const names = match[0].split('.').slice(1).filter(name => name !== '');
+        tokens.push({ type: 'field', names, position: p, end: p + match[0].length });
+        p += match[0].length;
+      } else if ((match = /^[-+]?(0[xX][0-9a-fA-F]+|[0-9]+(\.[0-9]+)?([eE][-+]?[0-9]+)?)(?![A-Za-z0-9_.])/.exec(rest))) {
+        tokens.push({ type: 'literal', value: Number(match[0]), position: p, end: p + match[0].length });
+        p += match[0].length;
+      } else if ((match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest))) {
+        const name = match[0];
+        const end = p + name.length;
+        if (name === 'true' || name === 'false') {
+          tokens.push({ type: 'literal', value: name === 'true', position: p, end });
+        } else if (name === 'nil') {
+          tokens.push({ type: 'literal', value: null, position: p, end });
+        } else {
+          tokens.push({ type: 'identifier', name, position: p, end });
+        }
+        p = end;
+      } else if (c === '$') {
+        throw this.error('Template variables are not supported', p);
+      } else {
+        throw this.error(`Unexpected "${c}" in action`, p);
+      }
+    }
+  }
+
+  /**
+   * Decode the escapes of a Go interpreted string literal
+   */
+  private unquote(str: string, position: number): string {
+    return str.replace(/\\(?:([abfnrtv\\"])|x([0-9a-fA-F]{2})|u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})|([0-7]{3})|(.?))/g,
+      (match, simple: string, x: string, u: string, U: string, octal: string, invalid: string, offset: number) => {
+        if (simple) {
+          return STRING_ESCAPES[simple];
+        }
+        const code = x || u || U;
+        if (code) {
+          return String.fromCodePoint(parseInt(code, 16));
+        }
+        if (octal) {
+          return String.fromCharCode(parseInt(octal, 8));
+        }
+        throw this.error(`Unknown escape sequence "\\${invalid}"`, position + offset);
+      });
+  }
+
+  /**
+   * Parse items into nodes until an {{else}} or {{end}} action, which is returned
+   */
+  private parseList(): { nodes: TemplateNode[]; end: Action | null } {
+    const nodes: TemplateNode[] = [];
+
+    while (this.index < this.items.length) {
+      const item = this.items[this.index++];
+      if (typeof item === 'string') {
+        nodes.push({ type: 'text', text: item });
+        continue;
+      }
+
+      const name = keyword(item);
+      if (name === 'else' || name === 'end') {
+        return { nodes, end: item };
+      }
+      if (name === 'if') {
+        nodes.push(this.parseIf(item));
+      } else {
+        nodes.push({ type: 'action', pipeline: this.parseAction(item, 0) });
+      }
+    }
+    return { nodes, end: null };
+  }
+
+  /**
+   * Parse an {{if}} block, including its {{else if}} and {{else}} branches
+   */
+  private parseIf(action: Action): TemplateNode {
+    const node: TemplateNode = { type: 'if', branches: [], otherwise: [] };
+    let condition = this.parseAction(action, 1);
+
+    for (;;) {
+      const { nodes, end } = this.parseList();
+      node.branches.push({ condition, body: nodes });
+
+      if (!end) {
+        throw this.error('Unclosed {{if}}', action.position);
+      }
+      if (keyword(end) === 'end') {
+        this.expectEmpty(end, 1);
+        return node;
+      }
+
+      const next = end.tokens[1];
+      if (next && next.type === 'identifier' && next.name === 'if') {
+        condition = this.parseAction(end, 2);
+        continue;
+      }
+
+      this.expectEmpty(end, 1);
+      const otherwise = this.parseList();
+      node.otherwise = otherwise.nodes;
+      if (!otherwise.end) {
+        throw this.error('Unclosed {{if}}', action.position);
+      }
+      if (keyword(otherwise.end) !== 'end') {
+        throw this.error('Unexpected {{else}}', otherwise.end.position);
+      }
+      this.expectEmpty(otherwise.end, 1);
+      return node;
+    }
+  }
+
+  /**
+   * Parse the pipeline of an action, after its first tokens
+   */
+  private parseAction(action: Action, first: number): Pipeline {
+    this.tokens = action.tokens;
+    this.token = first;
+    if (this.token >= this.tokens.length) {
+      throw this.error('Missing value in action', action.position);
+    }
+
+    const pipeline = this.parsePipeline();
+    if (this.token < this.tokens.length) {
+      throw this.error('Unexpected token in action', this.tokens[this.token].position);
+    }
+    return pipeline;
+  }
+
+  private parsePipeline(): Pipeline {
+    const pipeline = [this.parseCommand()];
+    while (this.peek('|')) {
+      this.token++;
+      pipeline.push(this.parseCommand());
+    }
+    return pipeline;
+  }
+
+  private parseCommand(): Command {
+    const position = this.tokens[this.token]?.position ?? this.tokens[this.token - 1].end;
+    const operands: Operand[] = [];
+    while (this.token < this.tokens.length && !this.peek('|') && !this.peek(')')) {
+      operands.push(this.parseOperand());
+    }
+    if (operands.length === 0) {
+      throw this.error('Missing command in pipeline', position);
+    }
+    return { operands, position };
+  }
+
+  private parseOperand(): Operand {
+    const token = this.tokens[this.token++];
+
+    switch (token.type) {
+      case 'literal':
+        return { type: 'literal', value: token.value };
+      case 'field':
+        return { type: 'field', receiver: null, names: token.names, position: token.position };
+      case 'identifier':
+        if (UNSUPPORTED_KEYWORDS.has(token.name)) {
+          throw this.error(`{{${token.name}}} is not supported`, token.position);
+        }
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.name)) {
+          throw this.error(`Function "${token.name}" is not defined`, token.position);
+        }
+        return { type: 'function', name: token.name, position: token.position };
+      case '(': {
+        const pipeline = this.parsePipeline();
+        const close = this.tokens[this.token++];
+        if (!close || close.type !== ')') {
+          throw this.error('Unclosed parenthesis', token.position);
+        }
+        const field = this.tokens[this.token];
+        if (field && field.type === 'field' && field.position === close.end && field.names.length !== 0) {
+          this.token++;
+          return { type: 'field', receiver: pipeline, names: field.names, position: field.position };
+        }
+        return { type: 'pipeline', pipeline };
+      }
+      default:
+        throw this.error(`Unexpected "${token.type}" in action`, token.position);
+    }
+  }
+
+  private peek(type: Token['type']): boolean {
+    return this.token < this.tokens.length && this.tokens[this.token].type === type;
+  }
+
+  /**
+   * Check that an action has no tokens after its keyword
+   */
+  private expectEmpty(action: Action, count: number): void {
+    if (action.tokens.length > count) {
+      throw this.error(`Unexpected token after {{${keyword(action)}}}`, action.tokens[count].position);
+    }
+  }
+
+  private error(message: string, position: number): KSUIDParseError {
+    return new KSUIDParseError(`${message} at position ${position}`, this.source, position);
+  }
+}
+
+const STRING_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\\': '\\',
+  '"': '"'
+};
+
+/**
+ * Keyword starting an action, if any
+ */
+function keyword(action: Action): string | null {
+  const first = action.tokens[0];
+  return first && first.type === 'identifier' && ['if', 'else', 'end'].includes(first.name) ? first.name : null;
+}
+
+function isSpace(c: string | undefined): boolean {
+  return c === ' ' || c === '\t' || c === '\r' || c === '\n';
+}
+
+/**
+ * Index of the closing quote of the string literal starting at start, or -1
+ */
+function findStringEnd(source: string, start: number): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === '"') {
+      return i;
+    } else if (source[i] === '\n') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function executeNodes(nodes: TemplateNode[], data: unknown): string {
+  let result = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      result += node.text;
+    } else if (node.type === 'action') {
+      result += print(evaluatePipeline(node.pipeline, data));
+    } else {
+      const branch = node.branches.find(({ condition }) => truthy(evaluatePipeline(condition, data)));
+      result += executeNodes(branch ? branch.body : node.otherwise, data);
+    }
+  }
+  return result;
+}
+
+/**
+ * Evaluate a pipeline, passing the result of each command as the last argument of the next
+ */
+function evaluatePipeline(pipeline: Pipeline, data: unknown): unknown {
+  let value: unknown;
+  pipeline.forEach((command, i) => {
+    value = evaluateCommand(command, data, i === 0 ? [] : [value]);
+  });
+  return value;
+}
+
+function evaluateCommand(command: Command, data: unknown, piped: unknown[]): unknown {
+  const [first, ...rest] = command.operands;
+  const args = [...rest.map(operand => evaluateOperand(operand, data)), ...piped];
+
+  if (first.type === 'function') {
+    return callFunction(first.name, args);
+  }
+  if (first.type === 'field') {
+    return evaluateField(first, data, args);
+  }
+  if (args.length !== 0) {
+    throw new KSUIDError(`Can't give arguments to ${describe(evaluateOperand(first, data))}`);
+  }
+  return evaluateOperand(first, data);
+}
+
+function evaluateOperand(operand: Operand, data: unknown): unknown {
+  switch (operand.type) {
+    case 'literal':
+      return operand.value;
+    case 'function':
+      return callFunction(operand.name, []);
+    case 'field':
+      return evaluateField(operand, data, []);
+    case 'pipeline':
+      return evaluatePipeline(operand.pipeline, data);
+  }
+}
+
+/**
+ * Evaluate a chain of fields, calling methods along the way
+ * The arguments are passed to the last method of the chain
+ */
+function evaluateField(field: Extract<Operand, { type: 'field' }>, data: unknown, args: unknown[]): unknown {
+  let value = field.receiver ? evaluatePipeline(field.receiver, data) : data;
+  if (field.names.length === 0 && args.length !== 0) {
+    throw new KSUIDError(`Can't give arguments to ${describe(value)}`);
+  }
+
+  field.names.forEach((name, i) => {
+    const last = i === field.names.length - 1;
+    // Like Go, only exported (capitalized) names are accessible
+    if (value === null || typeof value !== 'object' || !/^[A-Z]/.test(name) || !(name in value)) {
+      throw new KSUIDError(`Can't evaluate field ${name} in ${describe(value)}`);
+    }
+
+    const member = (value as Record<string, unknown>)[name];
+    if (typeof member === 'function') {
+      const methodArgs = last ? args : [];
+      if (methodArgs.length !== member.length) {
+        throw new KSUIDError(`Wrong number of arguments for ${name}: want ${member.length}, got ${methodArgs.length}`);
+      }
+      value = member.apply(value, methodArgs);
+    } else if (last && args.length !== 0) {
+      throw new KSUIDError(`Can't give arguments to field ${name}`);
+    } else {
+      value = member;
+    }
+  });
+  return value;
+}
+
+function callFunction(name: string, args: unknown[]): unknown {
+  const fn = FUNCTIONS[name];
+  const variadic = VARIADIC_FUNCTIONS.has(name);
+  if (variadic ? args.length < fn.length : args.length !== fn.length) {
+    throw new KSUIDError(`Wrong number of arguments for ${name}: want ${variadic ? 'at least ' : ''}${fn.length}, got ${args.length}`);
+  }
+  return fn(...args);
+}
+
+/**
+ * First argument matching the predicate, or the last one, as returned by `and` and `or`
+ */
+function firstOrLast(args: unknown[], predicate: (arg: unknown) => boolean): unknown {
+  const index = args.findIndex(predicate);
+  return args[index === -1 ? args.length - 1 : index];
+}
+
+/**
+ * Truth of a value in a condition, as in Go
+ */
+function truthy(value: unknown): boolean {
+  if (value instanceof TemplateBytes) {
+    return value.bytes.length !== 0;
+  }
+  return value !== null && value !== undefined && value !== false && value !== 0 && value !== '';
+}
+
+/**
+ * Compare two values of the same kind, strings and bytes being the same kind
+ */
+function compare(a: unknown, b: unknown): number {
+  const x = a instanceof TemplateBytes ? a.toString() : a instanceof TemplateTime ? a.date.getTime() : a;
+  const y = b instanceof TemplateBytes ? b.toString() : b instanceof TemplateTime ? b.date.getTime() : b;
+  if (typeof x !== typeof y || (typeof x !== 'string' && typeof x !== 'number' && typeof x !== 'boolean')) {
+    throw new KSUIDError(`Can't compare ${describe(a)} with ${describe(b)}`);
+  }
+  return x === y ? 0 : (x as string | number) < (y as string | number) ? -1 : 1;
+}
+
+function print(value: unknown): string {
+  return value === null || value === undefined ? '<nil>' : String(value);
+}
+
+/**
+ * Print values, separated by spaces when neither side is a string, like Go's fmt.Sprint
+ */
+function sprint(args: unknown[]): string {
+  const isString = (value: unknown) => typeof value === 'string' || value instanceof TemplateBytes;
+  let result = '';
+  args.forEach((arg, i) => {
+    if (i > 0 && !isString(arg) && !isString(args[i - 1])) {
+      result += ' ';
+    }
+    result += print(arg);
+  });
+  return result;
+}
+
+/**
+ * Format values like Go's fmt.Sprintf, for the verbs %v, %s, %d, %x, %X, %q, %t and %f
+ * with the `-` and `0` flags, a width and a precision
+ */
+function sprintf(format: string, args: unknown[]): string {
+  let index = 0;
+
+  return format.replace(/%([-+ 0#]*)([0-9]*)(?:\.([0-9]+))?([a-zA-Z%])/g, (match, flags: string, width: string, precision: string | undefined, verb: string) => {
+    if (verb === '%') {
+      return '%';
+    }
+    if (index >= args.length) {
+      return `%!${verb}(MISSING)`;
+    }
+
+    const arg = args[index++];
+    let text: string;
+    switch (verb) {
+      case 'v':
+      case 's':
+        text = precision === undefined ? print(arg) : print(arg).slice(0, Number(precision));
+        break;
+      case 'd':
+        text = typeof arg === 'number' ? Math.trunc(arg).toString() : `%!d(${print(arg)})`;
+        break;
+      case 'x':
+      case 'X':
+        text = typeof arg === 'number' ? Math.trunc(arg).toString(16) : Buffer.from(bytesOf(arg)).toString('hex');
+        text = verb === 'X' ? text.toUpperCase() : text;
+        break;
+      case 'q':
+        text = JSON.stringify(print(arg));
+        break;
+      case 't':
+        text = typeof arg === 'boolean' ? String(arg) : `%!t(${print(arg)})`;
+        break;
+      case 'f':
+        text = typeof arg === 'number' ? arg.toFixed(precision === undefined ? 6 : Number(precision)) : `%!f(${print(arg)})`;
+        break;
+      default:
+        text = `%!${verb}(${print(arg)})`;
+    }
+
+    const length = Number(width);
+    if (flags.includes('-')) {
+      return text.padEnd(length);
+    }
+    if (flags.includes('0') && typeof arg === 'number') {
+      const sign = text.startsWith('-') ? '-' : '';
+      return sign + text.slice(sign.length).padStart(length - sign.length, '0');
+    }
+    return text.padStart(length);
+  });
+}
+
+function escapeJS(c: string): string {
+  if (c === '\\' || c === '\'' || c === '"') {
+    return '\\' + c;
+  }
+  return '\\u' + c.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Bytes of a value to encode, the UTF-8 bytes for strings
+ */
+function bytesOf(value: unknown): Uint8Array {
+  if (value instanceof TemplateBytes) {
+    return value.bytes;
+  }
+  if (typeof value === 'string') {
+    return Buffer.from(value);
+  }
+  throw new KSUIDError(`Can't encode ${describe(value)} as bytes`);
+}
+
+/**
+ * Short description of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value instanceof TemplateBytes) {
+    return 'bytes';
+  }
+  if (value instanceof TemplateTime) {
+    return 'time';
+  }
+  return value === null || value === undefined ? 'nil' : typeof value === 'object' ? 'the KSUID' : `${typeof value} ${print(value)}`;
+}
+
+function yearDay(date: Date): number {
+  return Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+}
+
+function pad(value: number, length: number, fill: string): string {
+  return value.toString().padStart(length, fill);
+}
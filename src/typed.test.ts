@@ -0,0 +1,79 @@
+import { KSUID } from './ksuid';
+import { SeededRandomSource } from './random';
+import { KSUIDParseError } from './errors';
+import { KSUIDTypeOf, TypedKSUID, defineKSUIDType } from './typed';
+
+const UserId = defineKSUIDType('user');
+const OrderId = defineKSUIDType('order');
+type UserId = KSUIDTypeOf<typeof UserId>;
+type OrderId = KSUIDTypeOf<typeof OrderId>;
+
+describe('typed KSUIDs', () => {
+  it('should generate, encode and parse prefixed IDs', () => {
+    const id = UserId.new();
+    const str = UserId.toString(id);
+
+    expect(UserId.prefix).toBe('user');
+    expect(str).toBe(id.toString());
+    expect(str).toBe(`user_${KSUID.fromBytes(id.getBytes()).toString()}`);
+    expect(UserId.parse(str).equals(id)).toBe(true);
+    expect(UserId.parse('user_1BoZGMuixPtHRHwvkZxHEkfLxL4')).toBeInstanceOf(KSUID);
+
+    const seeded = UserId.new({ random: new SeededRandomSource(1) });
+    expect(seeded.getPayload()).toEqual(KSUID.new({ random: new SeededRandomSource(1) }).getPayload());
+  });
+
+  it('should carry the prefix through string conversions', () => {
+    const id = UserId.parse('user_1BoZGMuixPtHRHwvkZxHEkfLxL4');
+
+    expect(id.toString()).toBe('user_1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(`${id}`).toBe('user_1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(id.toString('hex')).toBe('08581913f971348b516762380e521f2744dad62e');
+    expect(UserId.parse(JSON.parse(JSON.stringify(id))).equals(id)).toBe(true);
+    expect(JSON.stringify({ id })).toBe('{"id":"user_1BoZGMuixPtHRHwvkZxHEkfLxL4"}');
+    expect(UserId.new() > id).toBe(true);
+  });
+
+  it('should reject IDs of other types', () => {
+    const order = OrderId.toString(OrderId.new());
+
+    expect(() => UserId.parse(order)).toThrowError('Expected a KSUID with the "user_" prefix');
+    expect(() => UserId.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4')).toThrowError(KSUIDParseError);
+    expect(() => UserId.parse('users_1BoZGMuixPtHRHwvkZxHEkfLxL4')).toThrowError(KSUIDParseError);
+  });
+
+  it('should report the position of invalid characters in the whole string', () => {
+    try {
+      UserId.parse('user_1BoZGMuixPtHRHwvkZxHEkf-xL4');
+      fail('expected a parse error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(KSUIDParseError);
+      expect((error as KSUIDParseError).message).toBe('Invalid "user" KSUID: Invalid base62 character "-" at position 23');
+      expect((error as KSUIDParseError).position).toBe(28);
+      expect((error as KSUIDParseError).input).toBe('user_1BoZGMuixPtHRHwvkZxHEkf-xL4');
+    }
+  });
+
+  it('should reject invalid prefixes', () => {
+    expect(() => defineKSUIDType('')).toThrowError('Invalid KSUID type prefix: ""');
+    expect(() => defineKSUIDType('user-id')).toThrowError('Invalid KSUID type prefix: "user-id"');
+  });
+
+  it('should not allow mixing ID types at compile time', () => {
+    const user: UserId = UserId.new();
+    const order: OrderId = OrderId.new();
+
+    // @ts-expect-error an OrderId is not a UserId
+    const wrong: UserId = order;
+    // @ts-expect-error a plain KSUID is not a UserId
+    const plain: UserId = KSUID.new();
+    // @ts-expect-error an OrderId can't be encoded as a UserId
+    UserId.toString(order);
+
+    // A typed ID is still a KSUID
+    const untyped: KSUID = user;
+    const generic: TypedKSUID<'user'> = user;
+
+    expect([wrong, plain, untyped, generic]).toHaveLength(4);
+  });
+});
@@ -0,0 +1,89 @@
+import { KSUID } from './ksuid';
+import { RandomSource } from './random';
+import { Encoding } from './encodings';
+import { KSUIDError, KSUIDParseError } from './errors';
+
+declare const prefixBrand: unique symbol;
+
+/**
+ * A KSUID branded with the prefix of its type, so IDs of different types
+ * can't be mixed up at compile time. Its base62 string, JSON and template
+ * string conversions carry the prefix, so they parse back with its type.
+ */
+export type TypedKSUID<Prefix extends string> = KSUID & { readonly [prefixBrand]: Prefix };
+
+/**
+ * Factory of prefixed KSUIDs of one type, e.g. `user_1BoZGMuixPtHRHwvkZxHEkfLxL4`
+ */
+export interface KSUIDType<Prefix extends string> {
+  /**
+   * Prefix of the string-encoded IDs, without the `_` separator
+   */
+  readonly prefix: Prefix;
+
+  /**
+   * Generate a new ID of this type
+   */
+  new: (options?: { random?: RandomSource }) => TypedKSUID<Prefix>;
+
+  /**
+   * Parse a prefixed ID, rejecting IDs of other types
+   */
+  parse(str: string): TypedKSUID<Prefix>;
+
+  /**
+   * String-encoded ID with its prefix, same as `id.toString()`
+   */
+  toString(id: TypedKSUID<Prefix>): string;
+}
+
+/**
+ * The ID type produced by a KSUIDType, e.g. `type UserId = KSUIDTypeOf<typeof UserId>`
+ */
+export type KSUIDTypeOf<T> = T extends KSUIDType<infer Prefix> ? TypedKSUID<Prefix> : never;
+
+const SEPARATOR = '_';
+
+/**
+ * Define a type of prefixed KSUIDs
+ * Prefixes are made of letters, digits and underscores
+ */
+export function defineKSUIDType<Prefix extends string>(prefix: Prefix): KSUIDType<Prefix> {
+  if (!/^[A-Za-z0-9_]+$/.test(prefix)) {
+    throw new KSUIDError(`Invalid KSUID type prefix: "${prefix}"`);
+  }
+
+  const start = prefix + SEPARATOR;
+
+  // Prefixes the base62 string, which toJSON, valueOf and Symbol.toPrimitive are built on
+  class PrefixedKSUID extends KSUID {
+    public toString(encoding: Encoding = 'base62'): string {
+      return encoding === 'base62' ? start + super.toString() : super.toString(encoding);
+    }
+  }
+
+  const typed = (id: KSUID) => new PrefixedKSUID(id.getBytes()) as TypedKSUID<Prefix>;
+
+  return {
+    prefix,
+
+    new: (options: { random?: RandomSource } = {}) => typed(KSUID.new(options)),
+
+    parse(str: string): TypedKSUID<Prefix> {
+      if (!str.startsWith(start)) {
+        throw new KSUIDParseError(`Expected a KSUID with the "${start}" prefix`, str, 0);
+      }
+
+      try {
+        return typed(KSUID.parse(str.slice(start.length)));
+      } catch (error) {
+        if (error instanceof KSUIDParseError) {
+          throw new KSUIDParseError(`Invalid "${prefix}" KSUID: ${error.message}`, str, start.length + error.position);
+        }
+        throw error;
+      }
+    },
+
+    toString: (id: TypedKSUID<Prefix>) => start + KSUID.prototype.toString.call(id)
+  };
+}
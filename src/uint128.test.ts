@@ -0,0 +1,62 @@
+import { Uint128 } from './uint128';
+import { KSUIDRangeError } from './errors';
+
+describe('Uint128', () => {
+  const MAX = (1n << 128n) - 1n;
+  const big = Uint128.fromBigInt(0x0123456789abcdef_fedcba9876543210n);
+
+  it('should convert to and from bigints and bytes', () => {
+    expect(big.toBigInt()).toBe(0x0123456789abcdef_fedcba9876543210n);
+    expect(big.toString()).toBe('0x0123456789abcdeffedcba9876543210');
+    expect(Uint128.fromPayload(big.toBytes()).equals(big)).toBe(true);
+    expect(Uint128.MAX.toBigInt()).toBe(MAX);
+    expect(() => Uint128.fromBigInt(MAX + 1n)).toThrowError(KSUIDRangeError);
+    expect(() => Uint128.fromBigInt(-1n)).toThrowError(KSUIDRangeError);
+  });
+
+  it('should wrap around on overflow', () => {
+    expect(Uint128.MAX.add(Uint128.ONE).equals(Uint128.ZERO)).toBe(true);
+    expect(Uint128.MAX.increment().equals(Uint128.ZERO)).toBe(true);
+    expect(Uint128.ZERO.decrement().equals(Uint128.MAX)).toBe(true);
+    expect(Uint128.ZERO.subtract(Uint128.ONE).equals(Uint128.MAX)).toBe(true);
+    expect(Uint128.MAX.multiply(Uint128.fromBigInt(2n)).toBigInt()).toBe(MAX - 1n);
+    expect(big.shiftLeft(64).toBigInt()).toBe(0xfedcba9876543210n << 64n);
+    expect(big.shiftLeft(200).equals(Uint128.ZERO)).toBe(true);
+  });
+
+  it('should carry between the 64-bit halves', () => {
+    const low = Uint128.fromBigInt(0xFFFFFFFFFFFFFFFFn);
+    expect(low.add(Uint128.ONE).toBigInt()).toBe(1n << 64n);
+    expect(low.increment().subtract(Uint128.ONE).equals(low)).toBe(true);
+    expect(low.multiply(low).toBigInt()).toBe(0xFFFFFFFFFFFFFFFFn * 0xFFFFFFFFFFFFFFFFn);
+  });
+
+  it('should throw on overflow in checked arithmetic', () => {
+    expect(() => Uint128.MAX.checkedAdd(Uint128.ONE)).toThrowError('Uint128 addition overflow');
+    expect(() => Uint128.ZERO.checkedSubtract(Uint128.ONE)).toThrowError('Uint128 subtraction overflow');
+    expect(() => Uint128.MAX.checkedMultiply(Uint128.fromBigInt(2n))).toThrowError('Uint128 multiplication overflow');
+    expect(Uint128.MAX.checkedSubtract(Uint128.ONE).checkedAdd(Uint128.ONE).equals(Uint128.MAX)).toBe(true);
+    expect(big.checkedMultiply(Uint128.fromBigInt(16n)).toBigInt()).toBe(big.toBigInt() * 16n);
+  });
+
+  it('should divide and take remainders', () => {
+    const seven = Uint128.fromBigInt(7n);
+    expect(big.divide(seven).toBigInt()).toBe(big.toBigInt() / 7n);
+    expect(big.remainder(seven).toBigInt()).toBe(big.toBigInt() % 7n);
+    expect(big.divide(seven).multiply(seven).add(big.remainder(seven)).equals(big)).toBe(true);
+    expect(() => big.divide(Uint128.ZERO)).toThrowError('Division by zero');
+    expect(() => big.remainder(Uint128.ZERO)).toThrowError('Division by zero');
+  });
+
+  it('should shift and apply bitwise operators', () => {
+    const mask = Uint128.fromBigInt(0xFFFF0000FFFF0000_FFFF0000FFFF0000n);
+    expect(big.shiftRight(4).toBigInt()).toBe(big.toBigInt() >> 4n);
+    expect(big.shiftRight(128).equals(Uint128.ZERO)).toBe(true);
+    expect(big.and(mask).toBigInt()).toBe(big.toBigInt() & mask.toBigInt());
+    expect(big.or(mask).toBigInt()).toBe(big.toBigInt() | mask.toBigInt());
+    expect(big.xor(mask).toBigInt()).toBe(big.toBigInt() ^ mask.toBigInt());
+    expect(big.not().toBigInt()).toBe(MAX ^ big.toBigInt());
+    expect(() => big.shiftLeft(-1)).toThrowError('Invalid shift amount: -1');
+    expect(() => big.shiftRight(1.5)).toThrowError(KSUIDRangeError);
+  });
+});
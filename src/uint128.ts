@@ -1,8 +1,15 @@
 import { TIMESTAMP_BYTE_LENGTH } from './constants';
+import { KSUIDRangeError } from './errors';
+
+const MASK_64 = 0xFFFFFFFFFFFFFFFFn;
+const MAX_VALUE = (1n << 128n) - 1n;
 
 /**
  * Class representing an unsigned 128-bit integer
  * Implemented as an array of two 64-bit values [low, high]
+ *
+ * Arithmetic wraps around modulo 2^128, like unsigned integers in Go.
+ * The `checked` variants throw a KSUIDRangeError instead of wrapping.
  */
 export class Uint128 {
   private readonly values: [bigint, bigint];
@@ -24,6 +31,16 @@ export class Uint128 {
     return new Uint128(high, low);
   }
 
+  /**
+   * Create a Uint128 from a bigint between 0 and 2^128 - 1
+   */
+  static fromBigInt(value: bigint): Uint128 {
+    if (value < 0n || value > MAX_VALUE) {
+      throw new KSUIDRangeError(`${value} is out of the Uint128 range`);
+    }
+    return new Uint128(value >> 64n, value & MASK_64);
+  }
+
   /**
    * Convert bytes to a bigint
    */
@@ -35,6 +52,23 @@ export class Uint128 {
     return result;
   }
 
+  /**
+   * Wrap a bigint around to the Uint128 range
+   */
+  private static wrap(value: bigint): Uint128 {
+    return Uint128.fromBigInt(BigInt.asUintN(128, value));
+  }
+
+  /**
+   * Create a Uint128 from a bigint, throwing when the operation named by `operation` overflowed
+   */
+  private static checked(value: bigint, operation: string): Uint128 {
+    if (value < 0n || value > MAX_VALUE) {
+      throw new KSUIDRangeError(`Uint128 ${operation} overflow`);
+    }
+    return Uint128.fromBigInt(value);
+  }
+
   /**
    * Get the KSUID from this Uint128 and the given timestamp
    */
@@ -76,6 +110,13 @@ export class Uint128 {
     return result;
   }
 
+  /**
+   * Convert Uint128 to a bigint
+   */
+  toBigInt(): bigint {
+    return (this.values[1] << 64n) | this.values[0];
+  }
+
   /**
    * String representation of the Uint128
    */
@@ -95,51 +136,115 @@ export class Uint128 {
   }
 
   /**
-   * Add another Uint128
+   * Add another Uint128, wrapping around on overflow
    */
   add(other: Uint128): Uint128 {
-    let low = this.values[0] + other.values[0];
-    let high = this.values[1] + other.values[1];
-    
-    // Handle carry
-    if (low > 0xFFFFFFFFFFFFFFFFn) {
-      high += 1n;
-      low &= 0xFFFFFFFFFFFFFFFFn;
-    }
-    
-    return new Uint128(high, low);
+    return Uint128.wrap(this.toBigInt() + other.toBigInt());
   }
 
   /**
-   * Subtract another Uint128
+   * Add another Uint128, throwing on overflow
+   */
+  checkedAdd(other: Uint128): Uint128 {
+    return Uint128.checked(this.toBigInt() + other.toBigInt(), 'addition');
+  }
+
+  /**
+   * Subtract another Uint128, wrapping around on underflow
    */
   subtract(other: Uint128): Uint128 {
-    let low: bigint, high: bigint;
-    
-    if (this.values[0] >= other.values[0]) {
-      low = this.values[0] - other.values[0];
-      high = this.values[1] - other.values[1];
-    } else {
-      low = this.values[0] + 0x10000000000000000n - other.values[0];
-      high = this.values[1] - 1n - other.values[1];
-    }
-    
-    return new Uint128(high, low);
+    return Uint128.wrap(this.toBigInt() - other.toBigInt());
+  }
+
+  /**
+   * Subtract another Uint128, throwing on underflow
+   */
+  checkedSubtract(other: Uint128): Uint128 {
+    return Uint128.checked(this.toBigInt() - other.toBigInt(), 'subtraction');
+  }
+
+  /**
+   * Multiply by another Uint128, wrapping around on overflow
+   */
+  multiply(other: Uint128): Uint128 {
+    return Uint128.wrap(this.toBigInt() * other.toBigInt());
+  }
+
+  /**
+   * Multiply by another Uint128, throwing on overflow
+   */
+  checkedMultiply(other: Uint128): Uint128 {
+    return Uint128.checked(this.toBigInt() * other.toBigInt(), 'multiplication');
+  }
+
+  /**
+   * Divide by another Uint128, rounding down
+   */
+  divide(other: Uint128): Uint128 {
+    return Uint128.fromBigInt(this.toBigInt() / divisor(other));
   }
 
   /**
-   * Increment by 1
+   * Remainder of the division by another Uint128
+   */
+  remainder(other: Uint128): Uint128 {
+    return Uint128.fromBigInt(this.toBigInt() % divisor(other));
+  }
+
+  /**
+   * Shift left by the given number of bits, dropping the bits shifted out
+   */
+  shiftLeft(bits: number): Uint128 {
+    return Uint128.wrap(this.toBigInt() << shiftAmount(bits));
+  }
+
+  /**
+   * Shift right by the given number of bits
+   */
+  shiftRight(bits: number): Uint128 {
+    return Uint128.fromBigInt(this.toBigInt() >> shiftAmount(bits));
+  }
+
+  /**
+   * Bitwise AND with another Uint128
+   */
+  and(other: Uint128): Uint128 {
+    return new Uint128(this.values[1] & other.values[1], this.values[0] & other.values[0]);
+  }
+
+  /**
+   * Bitwise OR with another Uint128
+   */
+  or(other: Uint128): Uint128 {
+    return new Uint128(this.values[1] | other.values[1], this.values[0] | other.values[0]);
+  }
+
+  /**
+   * Bitwise XOR with another Uint128
+   */
+  xor(other: Uint128): Uint128 {
+    return new Uint128(this.values[1] ^ other.values[1], this.values[0] ^ other.values[0]);
+  }
+
+  /**
+   * Bitwise NOT
+   */
+  not(): Uint128 {
+    return new Uint128(this.values[1] ^ MASK_64, this.values[0] ^ MASK_64);
+  }
+
+  /**
+   * Increment by 1, wrapping around to 0 after the maximum value
    */
   increment(): Uint128 {
-    let low = this.values[0] + 1n;
-    let high = this.values[1];
-    
-    if (low > 0xFFFFFFFFFFFFFFFFn) {
-      high += 1n;
-      low = 0n;
-    }
-    
-    return new Uint128(high, low);
+    return this.add(Uint128.ONE);
+  }
+
+  /**
+   * Decrement by 1, wrapping around to the maximum value below 0
+   */
+  decrement(): Uint128 {
+    return this.subtract(Uint128.ONE);
   }
 
   /**
@@ -167,7 +272,7 @@ export class Uint128 {
    * Get a Uint128 with max value (all bits set to 1)
    */
   static get MAX(): Uint128 {
-    return new Uint128(0xFFFFFFFFFFFFFFFFn, 0xFFFFFFFFFFFFFFFFn);
+    return new Uint128(MASK_64, MASK_64);
   }
 }
 
@@ -176,4 +281,25 @@ export class Uint128 {
  */
 export function uint128Payload(ksuid: Uint8Array): Uint128 {
   return Uint128.fromPayload(ksuid.slice(TIMESTAMP_BYTE_LENGTH));
-} 
\ No newline at end of file
+}
+
+/**
+ * Value of a divisor, which must not be zero
+ */
+function divisor(value: Uint128): bigint {
+  const n = value.toBigInt();
+  if (n === 0n) {
+    throw new KSUIDRangeError('Division by zero');
+  }
+  return n;
+}
+
+/**
+ * Shift amount as a bigint, which must be a non-negative integer
+ */
+function shiftAmount(bits: number): bigint {
+  if (!Number.isInteger(bits) || bits < 0) {
+    throw new KSUIDRangeError(`Invalid shift amount: ${bits}`);
+  }
+  return BigInt(Math.min(bits, 128));
+}
@@ -0,0 +1,77 @@
+import { validateSync } from 'class-validator';
+import { KSUID } from './ksuid';
+import { MAX_STRING_ENCODED, MIN_STRING_ENCODED } from './constants';
+import { IsKSUID, KSUID_JSON_SCHEMA, zodKSUID } from './validation';
+
+class CreateEvent {
+  @IsKSUID()
+  id: unknown;
+
+  @IsKSUID({ message: 'invalid parent' })
+  parent: unknown;
+
+  constructor(id: unknown, parent: unknown) {
+    this.id = id;
+    this.parent = parent;
+  }
+}
+
+describe('validation', () => {
+  const valid = ['1BoZGMuixPtHRHwvkZxHEkfLxL4', MIN_STRING_ENCODED, MAX_STRING_ENCODED, 'aWgEPTl1tmebfsQzFP4bxwgy80U', 'ZzzzzzzzzzzzzzzzzzzzzzzzzzZ'];
+  const invalid = [
+    '',
+    '1BoZGMuixPtHRHwvkZxHEkfLxL',
+    '1BoZGMuixPtHRHwvkZxHEkfLxL4a',
+    '1BoZGMuixPtHRHwvkZxHEkf-xL4',
+    'aWgEPTl1tmebfsQzFP4bxwgy80W',
+    'aWgEPTl1tmebfsQzFP4bxwgy810',
+    'aWgEQ000000000000000000000',
+    'b00000000000000000000000000',
+    'zzzzzzzzzzzzzzzzzzzzzzzzzzz'
+  ];
+
+  it('should parse strings into KSUIDs with zod', () => {
+    const schema = zodKSUID();
+    expect(schema.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4')).toBeInstanceOf(KSUID);
+    expect(schema.parse(MAX_STRING_ENCODED).equals(KSUID.Max)).toBe(true);
+
+    const result = schema.safeParse('1BoZGMuixPtHRHwvkZxHEkf-xL4');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Invalid base62 character "-" at position 23');
+    }
+
+    expect(schema.safeParse(42).success).toBe(false);
+    expect(zodKSUID()).toBe(schema);
+  });
+
+  it('should match exactly the strings KSUID.parse accepts with the JSON Schema pattern', () => {
+    const pattern = new RegExp(KSUID_JSON_SCHEMA.pattern);
+
+    for (const str of valid) {
+      expect(pattern.test(str)).toBe(true);
+    }
+    for (const str of invalid) {
+      expect(pattern.test(str)).toBe(false);
+    }
+    for (let i = 0; i < 200; i++) {
+      expect(pattern.test(KSUID.new().toString())).toBe(true);
+    }
+
+    // Walk up from below the maximum, one digit at a time
+    for (let i = 0; i < MAX_STRING_ENCODED.length; i++) {
+      const above = MAX_STRING_ENCODED.slice(0, i) + 'z' + MAX_STRING_ENCODED.slice(i + 1);
+      expect(pattern.test(above)).toBe(KSUID.isValid(above));
+    }
+  });
+
+  it('should validate properties with class-validator', () => {
+    expect(validateSync(new CreateEvent('1BoZGMuixPtHRHwvkZxHEkfLxL4', MAX_STRING_ENCODED))).toEqual([]);
+
+    const errors = validateSync(new CreateEvent('aWgEPTl1tmebfsQzFP4bxwgy80W', 42));
+    expect(errors.map(error => error.constraints)).toEqual([
+      { isKSUID: 'id must be a KSUID' },
+      { isKSUID: 'invalid parent' }
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { ValidationArguments, ValidationOptions } from 'class-validator';
+import { KSUID } from './ksuid';
+import { KSUIDParseError } from './errors';
+import { BASE62_CHARACTERS, MAX_STRING_ENCODED, STRING_ENCODED_LENGTH } from './constants';
+
+// zod and class-validator are optional peer dependencies, only loaded when
+// their integration is used so either one can be installed without the other
+
+/**
+ * JSON Schema fragment matching exactly the strings `KSUID.parse` accepts:
+ * 27 base62 characters, not above the maximum KSUID
+ */
+export const KSUID_JSON_SCHEMA = {
+  type: 'string',
+  minLength: STRING_ENCODED_LENGTH,
+  maxLength: STRING_ENCODED_LENGTH,
+  pattern: `^${maxPattern(0)}$`
+} as const;
+
+let schema: ZodType<KSUID, ZodTypeDef, string> | null = null;
+
+/**
+ * zod schema parsing base62 strings into KSUID instances
+ * Invalid strings are reported with the `KSUID.parse` error message
+ */
+export function zodKSUID(): ZodType<KSUID, ZodTypeDef, string> {
+  if (schema === null) {
+    const { z } = require('zod') as typeof import('zod');
+    schema = z.string().transform((value, context) => {
+      try {
+        return KSUID.parse(value);
+      } catch (error) {
+        if (!(error instanceof KSUIDParseError)) {
+          throw error;
+        }
+        context.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+        return z.NEVER;
+      }
+    });
+  }
+  return schema;
+}
+
+/**
+ * class-validator decorator checking that a property is a valid base62 KSUID string
+ */
+export function IsKSUID(options?: ValidationOptions): PropertyDecorator {
+  return (target: object, propertyName: string | symbol) => {
+    const { registerDecorator } = require('class-validator') as typeof import('class-validator');
+    registerDecorator({
+      name: 'isKSUID',
+      target: target.constructor,
+      propertyName: propertyName as string,
+      options,
+      validator: {
+        validate: (value: unknown) => typeof value === 'string' && KSUID.isValid(value),
+        defaultMessage: (args?: ValidationArguments) => `${args ? args.property : 'value'} must be a KSUID`
+      }
+    });
+  };
+}
+
+/**
+ * Regular expression source matching the base62 strings of the remaining
+ * length that are not above the maximum KSUID from position i on
+ */
+function maxPattern(i: number): string {
+  const max = MAX_STRING_ENCODED[i];
+  if (i === STRING_ENCODED_LENGTH - 1) {
+    return charactersUpTo(max, true);
+  }
+
+  const rest = `${max}${maxPattern(i + 1)}`;
+  if (max === BASE62_CHARACTERS[0]) {
+    return rest;
+  }
+  return `(?:${charactersUpTo(max, false)}[0-9A-Za-z]{${STRING_ENCODED_LENGTH - 1 - i}}|${rest})`;
+}
+
+/**
+ * Character class of the base62 digits below (or up to) the given one
+ */
+function charactersUpTo(digit: string, inclusive: boolean): string {
+  const end = BASE62_CHARACTERS.indexOf(digit) + (inclusive ? 1 : 0);
+  const ranges: string[] = [];
+  for (const [from, to] of [[0, 10], [10, 36], [36, 62]]) {
+    const last = Math.min(to, end) - 1;
+    if (last > from) {
+      ranges.push(`${BASE62_CHARACTERS[from]}-${BASE62_CHARACTERS[last]}`);
+    } else if (last === from) {
+      ranges.push(BASE62_CHARACTERS[from]);
+    }
+  }
+  return `[${ranges.join('')}]`;
+}
@@ -0,0 +1,70 @@
+import { KSUID } from './ksuid';
+import { KSUIDView } from './view';
+import { BYTE_LENGTH } from './constants';
+
+describe('KSUIDView', () => {
+  const id = KSUID.parse('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+
+  it('should read a KSUID in place', () => {
+    const buffer = new Uint8Array(5 + BYTE_LENGTH);
+    id.writeTo(buffer, 5);
+    const view = new KSUIDView(buffer, 5);
+
+    expect(view.getTimestamp()).toBe(id.getTimestamp());
+    expect(view.getTime()).toEqual(id.getTime());
+    expect(view.getPayload()).toEqual(id.getPayload());
+    expect(view.toString()).toBe('1BoZGMuixPtHRHwvkZxHEkfLxL4');
+    expect(view.toString('hex')).toBe(id.toString('hex'));
+    expect(view.toKSUID().equals(id)).toBe(true);
+  });
+
+  it('should share memory with the buffer', () => {
+    const buffer = new Uint8Array(BYTE_LENGTH);
+    id.writeTo(buffer);
+    const view = new KSUIDView(buffer);
+
+    expect(view.getBytes().buffer).toBe(buffer.buffer);
+    expect(view.getPayload().buffer).toBe(buffer.buffer);
+
+    const copy = view.toKSUID();
+    buffer[19]++;
+    expect(view.equals(id)).toBe(false);
+    expect(copy.equals(id)).toBe(true);
+  });
+
+  it('should compare with KSUIDs and other views', () => {
+    const packed = KSUID.generate(50);
+    const views = Array.from({ length: 50 }, (_, i) => new KSUIDView(packed, i * BYTE_LENGTH));
+    const ids = views.map(view => view.toKSUID());
+
+    for (let i = 0; i < 50; i++) {
+      for (let j = 0; j < 50; j += 7) {
+        const expected = Math.sign(ids[i].compare(ids[j]));
+        expect(Math.sign(views[i].compare(views[j]))).toBe(expected);
+        expect(Math.sign(views[i].compare(ids[j]))).toBe(expected);
+        expect(Math.sign(ids[i].compare(views[j]))).toBe(expected);
+      }
+    }
+
+    expect(views[3].equals(ids[3])).toBe(true);
+    expect(ids[3].equals(views[3])).toBe(true);
+  });
+
+  it('should write into other buffers', () => {
+    const source = new Uint8Array(2 * BYTE_LENGTH);
+    id.writeTo(source, BYTE_LENGTH);
+
+    const target = new Uint8Array(3 + BYTE_LENGTH);
+    new KSUIDView(source, BYTE_LENGTH).writeTo(target, 3);
+    expect(new KSUIDView(target, 3).equals(id)).toBe(true);
+  });
+
+  it('should reject offsets out of the buffer bounds', () => {
+    const buffer = new Uint8Array(BYTE_LENGTH);
+
+    expect(() => new KSUIDView(buffer, 1)).toThrowError('Offsets are out of the buffer bounds');
+    expect(() => new KSUIDView(buffer, -1)).toThrowError('Offsets are out of the buffer bounds');
+    expect(() => id.writeTo(buffer, 1)).toThrowError('Offsets are out of the buffer bounds');
+    expect(() => new KSUIDView(buffer).writeTo(new Uint8Array(19))).toThrowError('Offsets are out of the buffer bounds');
+  });
+});
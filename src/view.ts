@@ -0,0 +1,110 @@
+import { BYTE_LENGTH, EPOCH_STAMP, TIMESTAMP_BYTE_LENGTH } from './constants';
+import { KSUID, compareBytes } from './ksuid';
+import { KSUIDRangeError } from './errors';
+import { Encoding, encode } from './encodings';
+import { encodeBase62 } from './base62';
+
+/**
+ * KSUIDView is a read-only view of a KSUID stored in a larger buffer,
+ * e.g. a file of packed binary IDs.
+ *
+ * Unlike KSUID, nothing is copied: the view reads the buffer directly, so it
+ * reflects later changes to the buffer. Use `toKSUID()` to take a copy.
+ */
+export class KSUIDView {
+  /**
+   * Buffer holding the KSUID
+   */
+  public readonly buffer: Uint8Array;
+
+  /**
+   * Offset of the KSUID in the buffer
+   */
+  public readonly offset: number;
+
+  /**
+   * Create a view of the 20 bytes of buffer starting at offset
+   */
+  constructor(buffer: Uint8Array, offset: number = 0) {
+    if (!Number.isInteger(offset) || offset < 0 || offset + BYTE_LENGTH > buffer.length) {
+      throw new KSUIDRangeError('Offsets are out of the buffer bounds');
+    }
+    this.buffer = buffer;
+    this.offset = offset;
+  }
+
+  /**
+   * Get the raw bytes of the KSUID, sharing memory with the buffer
+   */
+  public getBytes(): Uint8Array {
+    return this.buffer.subarray(this.offset, this.offset + BYTE_LENGTH);
+  }
+
+  /**
+   * Get the timestamp portion of the ID as a Date object
+   */
+  public getTime(): Date {
+    return new Date((this.getTimestamp() + EPOCH_STAMP) * 1000);
+  }
+
+  /**
+   * Get the timestamp portion of the ID as a bare integer (uncorrected for KSUID's special epoch)
+   */
+  public getTimestamp(): number {
+    const b = this.buffer;
+    const o = this.offset;
+    return ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+  }
+
+  /**
+   * Get the 16-byte payload, sharing memory with the buffer
+   */
+  public getPayload(): Uint8Array {
+    return this.buffer.subarray(this.offset + TIMESTAMP_BYTE_LENGTH, this.offset + BYTE_LENGTH);
+  }
+
+  /**
+   * String-encoded representation, base62 unless another encoding is given
+   */
+  public toString(encoding: Encoding = 'base62'): string {
+    const bytes = this.getBytes();
+    return encoding === 'base62' ? encodeBase62(bytes) : encode(bytes, encoding);
+  }
+
+  /**
+   * Compare with a KSUID or another view without allocating
+   * Returns negative if this < other, positive if this > other, 0 if equal
+   */
+  public compare(other: KSUID | KSUIDView): number {
+    if (other instanceof KSUIDView) {
+      return compareBytes(this.buffer, this.offset, other.buffer, other.offset);
+    }
+    // Let the KSUID compare against this view, avoiding -0 when equal
+    const cmp = other.compare(this);
+    return cmp === 0 ? 0 : -cmp;
+  }
+
+  /**
+   * Check if the view holds the same KSUID as a KSUID or another view
+   */
+  public equals(other: KSUID | KSUIDView): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /**
+   * Copy the 20 bytes of the KSUID into buffer at the given offset
+   */
+  public writeTo(buffer: Uint8Array, offset: number = 0): void {
+    if (offset < 0 || offset + BYTE_LENGTH > buffer.length) {
+      throw new KSUIDRangeError('Offsets are out of the buffer bounds');
+    }
+    buffer.set(this.getBytes(), offset);
+  }
+
+  /**
+   * Copy the viewed bytes into a standalone KSUID
+   */
+  public toKSUID(): KSUID {
+    return new KSUID(this.getBytes());
+  }
+}